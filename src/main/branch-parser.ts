@@ -0,0 +1,102 @@
+import type { BranchInfo } from "../shared/types";
+
+const FIELDS = [
+  "%(refname)",
+  "%(refname:short)",
+  "%(objectname)",
+  "%(symref)",
+  "%(HEAD)",
+  "%(upstream:short)",
+  "%(upstream:track,nobracket)",
+  "%(committerdate:unix)",
+  "%(contents:subject)"
+];
+
+export const BRANCH_LIST_ARGS = [
+  "for-each-ref",
+  `--format=${FIELDS.join("%1f")}`,
+  "refs/heads",
+  "refs/remotes"
+];
+
+/** Reads `ahead 1, behind 2`, `gone` or an empty string from `%(upstream:track,nobracket)`. */
+function parseTrack(track: string): { ahead: number; behind: number; upstreamGone: boolean } {
+  return {
+    ahead: Number.parseInt(track.match(/ahead (\d+)/)?.[1] ?? "0", 10),
+    behind: Number.parseInt(track.match(/behind (\d+)/)?.[1] ?? "0", 10),
+    upstreamGone: track === "gone"
+  };
+}
+
+export function parseBranchList(stdout: string): BranchInfo[] {
+  const branches: BranchInfo[] = [];
+  for (const line of stdout.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    const [
+      fullRef = "",
+      name = "",
+      oid = "",
+      symref = "",
+      head = "",
+      upstream = "",
+      track = "",
+      committedAt = "",
+      subject = ""
+    ] = line.split("\x1f");
+    // `refs/remotes/<remote>/HEAD` only points at the remote's default branch.
+    if (symref) {
+      continue;
+    }
+    const isRemote = fullRef.startsWith("refs/remotes/");
+    const seconds = Number.parseInt(committedAt, 10);
+    branches.push({
+      name,
+      fullRef,
+      kind: isRemote ? "remote" : "local",
+      remote: isRemote ? name.split("/")[0] : null,
+      oid,
+      isCurrent: head === "*",
+      upstream: upstream || null,
+      ...parseTrack(track),
+      lastCommitAt: Number.isFinite(seconds) ? new Date(seconds * 1_000).toISOString() : null,
+      lastCommitSubject: subject,
+      isMerged: null
+    });
+  }
+  return branches;
+}
+
+/** Every commit the given tips have that no remote-tracking branch has, with its parents. */
+export function unpublishedCommitsArgs(tips: string[]): string[] {
+  return ["rev-list", "--parents", ...tips, "--not", "--remotes"];
+}
+
+/**
+ * Counts, per tip, the commits it reaches in `rev-list --parents` output. The listing already
+ * stops at published history, so one call covers every branch.
+ */
+export function countUnpublishedCommits(stdout: string, tips: string[]): Map<string, number> {
+  const parents = new Map<string, string[]>();
+  for (const line of stdout.split("\n")) {
+    const [oid, ...rest] = line.trim().split(" ");
+    if (oid) {
+      parents.set(oid, rest);
+    }
+  }
+  const counts = new Map<string, number>();
+  for (const tip of tips) {
+    const reached = new Set<string>();
+    const pending = [tip];
+    for (let oid = pending.pop(); oid !== undefined; oid = pending.pop()) {
+      const next = parents.get(oid);
+      if (next && !reached.has(oid)) {
+        reached.add(oid);
+        pending.push(...next);
+      }
+    }
+    counts.set(tip, reached.size);
+  }
+  return counts;
+}
@@ -10,6 +10,9 @@ export interface RunCommandOptions {
   timeoutMs?: number;
   signal?: AbortSignal;
   environment?: RepoEnvironment;
+  input?: string;
+  /** Extra environment variables for the command; they win over the inherited ones. */
+  env?: Record<string, string>;
   onProgress?: (command: ActiveCommand) => void;
 }
 
@@ -22,6 +25,9 @@ export class CommandFailedError extends Error {
   }
 }
 
+/** Output arriving faster than this is coalesced into one progress report. */
+const PROGRESS_INTERVAL_MS = 200;
+
 function nowIso(): string {
   return new Date().toISOString();
 }
@@ -44,7 +50,8 @@ export async function runCommand(
   const env = {
     ...process.env,
     GIT_TERMINAL_PROMPT: "0",
-    GCM_INTERACTIVE: "Never"
+    GCM_INTERACTIVE: "Never",
+    ...options.env
   };
 
   return await new Promise<CommandTranscript>((resolve, reject) => {
@@ -58,6 +65,7 @@ export async function runCommand(
     let stderr = "";
     let timedOut = false;
     let finished = false;
+    let progressTimer: NodeJS.Timeout | null = null;
     const reportProgress = (): void => {
       options.onProgress?.({
         command: formatInvocation(command, args),
@@ -66,6 +74,12 @@ export async function runCommand(
         startedAt
       });
     };
+    const scheduleProgress = (): void => {
+      progressTimer ??= setTimeout(() => {
+        progressTimer = null;
+        reportProgress();
+      }, PROGRESS_INTERVAL_MS);
+    };
 
     reportProgress();
 
@@ -84,14 +98,20 @@ export async function runCommand(
 
     options.signal?.addEventListener("abort", onAbort);
 
+    if (options.input !== undefined) {
+      // The child may exit before reading everything; its exit code reports that failure.
+      child.stdin.on("error", () => undefined);
+      child.stdin.end(options.input, "utf8");
+    }
+
     child.stdout.on("data", (chunk: Buffer) => {
       stdout += chunk.toString("utf8");
-      reportProgress();
+      scheduleProgress();
     });
 
     child.stderr.on("data", (chunk: Buffer) => {
       stderr += chunk.toString("utf8");
-      reportProgress();
+      scheduleProgress();
     });
 
     child.on("error", (error) => {
@@ -100,6 +120,7 @@ export async function runCommand(
       }
       finished = true;
       clearTimeout(timer);
+      clearTimeout(progressTimer ?? undefined);
       options.signal?.removeEventListener("abort", onAbort);
       const transcript: CommandTranscript = {
         command: formatInvocation(command, args),
@@ -119,6 +140,7 @@ export async function runCommand(
       }
       finished = true;
       clearTimeout(timer);
+      clearTimeout(progressTimer ?? undefined);
       options.signal?.removeEventListener("abort", onAbort);
       const transcript: CommandTranscript = {
         command: formatInvocation(command, args),
@@ -151,9 +173,14 @@ export async function runGitCommand(
     });
   }
 
-  const script = `cd ${shellEscape(repoPath)} && GIT_TERMINAL_PROMPT=0 GCM_INTERACTIVE=Never git ${gitArgs
-    .map(shellEscape)
-    .join(" ")}`;
+  // The Windows environment does not reach the distro, so variables are set on the command.
+  const assignments = Object.entries({
+    GIT_TERMINAL_PROMPT: "0",
+    GCM_INTERACTIVE: "Never",
+    ...options.env
+  }).map(([name, value]) => `${name}=${shellEscape(value)}`);
+  const command = [...assignments, "git", ...gitArgs.map(shellEscape)].join(" ");
+  const script = `cd ${shellEscape(repoPath)} && ${command}`;
   return await runCommand(
     "wsl.exe",
     ["-d", environment.distro, "--", "bash", "-lc", script],
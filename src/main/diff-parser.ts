@@ -0,0 +1,242 @@
+import type { DiffHunk, DiffLine, FileDiff } from "../shared/types";
+
+export const DIFF_ARGS = [
+  "-c",
+  "core.quotePath=false",
+  "diff",
+  "--no-color",
+  // Patches built from this output are applied back to the blobs, so no conversion may apply.
+  "--no-ext-diff",
+  "--no-textconv",
+  "--src-prefix=a/",
+  "--dst-prefix=b/"
+];
+
+/** Shows a commit's message, a NUL, then its diff against the first parent. */
+export const COMMIT_SHOW_ARGS = [
+  "-c",
+  "core.quotePath=false",
+  "show",
+  "--format=%B%x00",
+  "--no-color",
+  "--no-ext-diff",
+  "--src-prefix=a/",
+  "--dst-prefix=b/",
+  "--diff-merges=first-parent",
+  "-M"
+];
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+const C_ESCAPES: Record<string, string> = {
+  a: "\x07",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  v: "\v",
+  "\\": "\\",
+  '"': '"'
+};
+
+/** Decodes a path that git wrapped in double quotes with C-style and octal escapes. */
+function unquotePath(raw: string): string {
+  if (!raw.startsWith('"') || !raw.endsWith('"') || raw.length < 2) {
+    return raw;
+  }
+  const bytes: number[] = [];
+  const body = raw.slice(1, -1);
+  for (let index = 0; index < body.length; index += 1) {
+    const char = body[index];
+    if (char !== "\\") {
+      bytes.push(...Buffer.from(char, "utf8"));
+      continue;
+    }
+    const next = body[index + 1] ?? "";
+    const octal = body.slice(index + 1, index + 4);
+    if (/^[0-7]{3}$/.test(octal)) {
+      bytes.push(Number.parseInt(octal, 8));
+      index += 3;
+    } else {
+      bytes.push(...Buffer.from(C_ESCAPES[next] ?? next, "utf8"));
+      index += 1;
+    }
+  }
+  return Buffer.from(bytes).toString("utf8");
+}
+
+function stripPrefix(raw: string, prefix: string): string | null {
+  const value = unquotePath(raw.replace(/\t$/, ""));
+  if (value === "/dev/null") {
+    return null;
+  }
+  return value.startsWith(prefix) ? value.slice(prefix.length) : value;
+}
+
+/** Recovers the paths of a `diff --git a/<old> b/<new>` line when no ---/+++ lines follow. */
+function parseGitHeaderPaths(header: string): { oldPath: string; newPath: string } {
+  const rest = header.slice("diff --git ".length);
+  if (rest.startsWith('"')) {
+    const closing = rest.indexOf('" ', 1);
+    if (closing !== -1) {
+      return {
+        oldPath: stripPrefix(rest.slice(0, closing + 1), "a/") ?? "",
+        newPath: stripPrefix(rest.slice(closing + 2), "b/") ?? ""
+      };
+    }
+  }
+  // Unquoted paths may contain spaces; both halves are the same length unless renamed.
+  const half = (rest.length - 1) / 2;
+  if (Number.isInteger(half) && rest[half] === " ") {
+    return {
+      oldPath: stripPrefix(rest.slice(0, half), "a/") ?? "",
+      newPath: stripPrefix(rest.slice(half + 1), "b/") ?? ""
+    };
+  }
+  const separator = rest.indexOf(" b/");
+  return {
+    oldPath: stripPrefix(rest.slice(0, separator), "a/") ?? "",
+    newPath: stripPrefix(rest.slice(separator + 1), "b/") ?? ""
+  };
+}
+
+interface DiffBuilder {
+  diff: FileDiff;
+  oldPath: string | null;
+  hunk: DiffHunk | null;
+  oldLine: number;
+  newLine: number;
+}
+
+function finish(builder: DiffBuilder): FileDiff {
+  const { diff } = builder;
+  if (diff.status === "renamed" || diff.status === "copied") {
+    diff.originalPath = builder.oldPath;
+  }
+  return diff;
+}
+
+export function parseDiffOutput(stdout: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  let current: DiffBuilder | null = null;
+
+  for (const line of stdout.split("\n")) {
+    if (line.startsWith("diff --git ")) {
+      if (current) {
+        files.push(finish(current));
+      }
+      const { oldPath, newPath } = parseGitHeaderPaths(line);
+      current = {
+        diff: {
+          path: newPath || oldPath,
+          originalPath: null,
+          status: "modified",
+          isBinary: false,
+          newFileMode: null,
+          hunks: []
+        },
+        oldPath,
+        hunk: null,
+        oldLine: 0,
+        newLine: 0
+      };
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+
+    const { diff } = current;
+    if (current.hunk === null) {
+      if (line.startsWith("new file mode ")) {
+        diff.status = "added";
+        diff.newFileMode = line.slice("new file mode ".length).trim();
+      } else if (line.startsWith("deleted file mode")) {
+        diff.status = "deleted";
+      } else if (line.startsWith("rename from ")) {
+        diff.status = "renamed";
+        current.oldPath = unquotePath(line.slice("rename from ".length));
+      } else if (line.startsWith("rename to ")) {
+        diff.path = unquotePath(line.slice("rename to ".length));
+      } else if (line.startsWith("copy from ")) {
+        diff.status = "copied";
+        current.oldPath = unquotePath(line.slice("copy from ".length));
+      } else if (line.startsWith("copy to ")) {
+        diff.path = unquotePath(line.slice("copy to ".length));
+      } else if (line.startsWith("Binary files ") || line === "GIT binary patch") {
+        diff.isBinary = true;
+      } else if (line.startsWith("--- ")) {
+        current.oldPath = stripPrefix(line.slice(4), "a/") ?? current.oldPath;
+        continue;
+      } else if (line.startsWith("+++ ")) {
+        diff.path = stripPrefix(line.slice(4), "b/") ?? diff.path;
+        continue;
+      }
+    }
+
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      current.hunk = {
+        header: line,
+        oldStart: Number.parseInt(header[1], 10),
+        oldLines: header[2] === undefined ? 1 : Number.parseInt(header[2], 10),
+        newStart: Number.parseInt(header[3], 10),
+        newLines: header[4] === undefined ? 1 : Number.parseInt(header[4], 10),
+        lines: []
+      };
+      current.oldLine = current.hunk.oldStart;
+      current.newLine = current.hunk.newStart;
+      diff.hunks.push(current.hunk);
+      continue;
+    }
+
+    const hunk = current.hunk;
+    if (!hunk) {
+      continue;
+    }
+
+    const marker = line[0];
+    const content = line.slice(1);
+    let diffLine: DiffLine | null = null;
+    if (marker === " ") {
+      diffLine = {
+        kind: "context",
+        content,
+        oldLineNumber: current.oldLine++,
+        newLineNumber: current.newLine++,
+        noNewlineAtEnd: false
+      };
+    } else if (marker === "-") {
+      diffLine = {
+        kind: "delete",
+        content,
+        oldLineNumber: current.oldLine++,
+        newLineNumber: null,
+        noNewlineAtEnd: false
+      };
+    } else if (marker === "+") {
+      diffLine = {
+        kind: "add",
+        content,
+        oldLineNumber: null,
+        newLineNumber: current.newLine++,
+        noNewlineAtEnd: false
+      };
+    } else if (marker === "\\") {
+      const previous = hunk.lines.at(-1);
+      if (previous) {
+        previous.noNewlineAtEnd = true;
+      }
+    }
+    if (diffLine) {
+      hunk.lines.push(diffLine);
+    }
+  }
+
+  if (current) {
+    files.push(finish(current));
+  }
+  return files;
+}
+
@@ -1,10 +1,39 @@
 import { BrowserWindow, ipcMain } from "electron";
-import type { AddRepoInput, UpdateSettingsInput } from "../shared/types";
+import type {
+  AddRepoInput,
+  AmendCommitInput,
+  BulkActionInput,
+  CheckoutBranchInput,
+  ConflictResolution,
+  CreateBranchInput,
+  CreateStashInput,
+  DiffSelection,
+  FileDiffOptions,
+  LogQuery,
+  MergeRebaseAction,
+  RepoPatch,
+  SyncStrategy,
+  UpdateSettingsInput
+} from "../shared/types";
 import { RepoService } from "./repo-service";
 
 export function registerIpcHandlers(service: RepoService): void {
+  service.onEvent((event) => {
+    for (const win of BrowserWindow.getAllWindows()) {
+      if (!win.isDestroyed()) {
+        win.webContents.send("kachina:event", event);
+      }
+    }
+  });
   ipcMain.handle("kachina:getSnapshot", async () => service.getSnapshot());
   ipcMain.handle("kachina:refreshAll", async () => service.refreshAll());
+  ipcMain.handle("kachina:fetchAll", async () => service.fetchAll());
+  ipcMain.handle("kachina:refreshRepo", async (_event, repoId: string) =>
+    service.refreshRepo(repoId)
+  );
+  ipcMain.handle("kachina:fetchRepo", async (_event, repoId: string) =>
+    service.fetchRepo(repoId)
+  );
   ipcMain.handle("kachina:scanConfiguredRoots", async () => service.scanConfiguredRoots());
   ipcMain.handle("kachina:addRepo", async (_event, input: AddRepoInput) =>
     service.addRepo(input)
@@ -12,6 +41,23 @@ export function registerIpcHandlers(service: RepoService): void {
   ipcMain.handle("kachina:removeRepo", async (_event, repoId: string) =>
     service.removeRepo(repoId)
   );
+  ipcMain.handle(
+    "kachina:setRepoSyncStrategy",
+    async (_event, repoId: string, strategy: SyncStrategy | null) =>
+      service.setRepoSyncStrategy(repoId, strategy)
+  );
+  ipcMain.handle("kachina:updateRepo", async (_event, repoId: string, patch: RepoPatch) =>
+    service.updateRepo(repoId, patch)
+  );
+  ipcMain.handle("kachina:setRepoGroups", async (_event, repoId: string, groupIds: string[]) =>
+    service.setRepoGroups(repoId, groupIds)
+  );
+  ipcMain.handle("kachina:setRepoPinned", async (_event, repoId: string, pinned: boolean) =>
+    service.setRepoPinned(repoId, pinned)
+  );
+  ipcMain.handle("kachina:reorderRepos", async (_event, repoIds: string[]) =>
+    service.reorderRepos(repoIds)
+  );
   ipcMain.handle("kachina:updateSettings", async (_event, input: UpdateSettingsInput) =>
     service.updateSettings(input)
   );
@@ -21,10 +67,128 @@ export function registerIpcHandlers(service: RepoService): void {
   ipcMain.handle("kachina:unstageFile", async (_event, repoId: string, filePath: string) =>
     service.unstageFile(repoId, filePath)
   );
+  ipcMain.handle(
+    "kachina:getFileDiff",
+    async (_event, repoId: string, filePath: string, options: FileDiffOptions) =>
+      service.getFileDiff(repoId, filePath, options)
+  );
+  ipcMain.handle(
+    "kachina:stageSelection",
+    async (_event, repoId: string, selection: DiffSelection) =>
+      service.stageSelection(repoId, selection)
+  );
+  ipcMain.handle(
+    "kachina:unstageSelection",
+    async (_event, repoId: string, selection: DiffSelection) =>
+      service.unstageSelection(repoId, selection)
+  );
+  ipcMain.handle("kachina:discardFile", async (_event, repoId: string, filePath: string) =>
+    service.discardFile(repoId, filePath)
+  );
+  ipcMain.handle("kachina:discardAll", async (_event, repoId: string) =>
+    service.discardAll(repoId)
+  );
+  ipcMain.handle("kachina:cleanUntracked", async (_event, repoId: string) =>
+    service.cleanUntracked(repoId)
+  );
+  ipcMain.handle(
+    "kachina:restoreRecoveryPoint",
+    async (_event, repoId: string, recoveryPointId: string) =>
+      service.restoreRecoveryPoint(repoId, recoveryPointId)
+  );
+  ipcMain.handle("kachina:getStashFiles", async (_event, repoId: string, stashOid: string) =>
+    service.getStashFiles(repoId, stashOid)
+  );
+  ipcMain.handle(
+    "kachina:createStash",
+    async (_event, repoId: string, input: CreateStashInput) =>
+      service.createStash(repoId, input)
+  );
+  ipcMain.handle("kachina:applyStash", async (_event, repoId: string, stashOid: string) =>
+    service.applyStash(repoId, stashOid)
+  );
+  ipcMain.handle("kachina:popStash", async (_event, repoId: string, stashOid: string) =>
+    service.popStash(repoId, stashOid)
+  );
+  ipcMain.handle("kachina:dropStash", async (_event, repoId: string, stashOid: string) =>
+    service.dropStash(repoId, stashOid)
+  );
+  ipcMain.handle("kachina:listBranches", async (_event, repoId: string) =>
+    service.listBranches(repoId)
+  );
+  ipcMain.handle(
+    "kachina:checkoutBranch",
+    async (_event, repoId: string, input: CheckoutBranchInput) =>
+      service.checkoutBranch(repoId, input)
+  );
+  ipcMain.handle(
+    "kachina:createBranch",
+    async (_event, repoId: string, input: CreateBranchInput) =>
+      service.createBranch(repoId, input)
+  );
+  ipcMain.handle(
+    "kachina:renameBranch",
+    async (_event, repoId: string, branch: string, newName: string) =>
+      service.renameBranch(repoId, branch, newName)
+  );
+  ipcMain.handle(
+    "kachina:deleteBranch",
+    async (_event, repoId: string, branch: string, force: boolean) =>
+      service.deleteBranch(repoId, branch, force)
+  );
+  ipcMain.handle(
+    "kachina:addRemote",
+    async (_event, repoId: string, name: string, url: string) =>
+      service.addRemote(repoId, name, url)
+  );
+  ipcMain.handle("kachina:removeRemote", async (_event, repoId: string, name: string) =>
+    service.removeRemote(repoId, name)
+  );
+  ipcMain.handle(
+    "kachina:renameRemote",
+    async (_event, repoId: string, name: string, newName: string) =>
+      service.renameRemote(repoId, name, newName)
+  );
+  ipcMain.handle(
+    "kachina:setRemoteUrl",
+    async (_event, repoId: string, name: string, url: string, push: boolean) =>
+      service.setRemoteUrl(repoId, name, url, push)
+  );
+  ipcMain.handle("kachina:testRemote", async (_event, repoId: string, name: string) =>
+    service.testRemote(repoId, name)
+  );
+  ipcMain.handle("kachina:getLog", async (_event, repoId: string, query: LogQuery) =>
+    service.getLog(repoId, query)
+  );
+  ipcMain.handle("kachina:getCommitDetails", async (_event, repoId: string, oid: string) =>
+    service.getCommitDetails(repoId, oid)
+  );
   ipcMain.handle("kachina:commitRepo", async (_event, repoId: string, message: string) =>
     service.commitRepo(repoId, message)
   );
+  ipcMain.handle(
+    "kachina:amendCommit",
+    async (_event, repoId: string, input: AmendCommitInput) => service.amendCommit(repoId, input)
+  );
+  ipcMain.handle(
+    "kachina:runMergeRebaseAction",
+    async (_event, repoId: string, action: MergeRebaseAction) =>
+      service.runMergeRebaseAction(repoId, action)
+  );
+  ipcMain.handle(
+    "kachina:getConflictVersions",
+    async (_event, repoId: string, filePath: string) =>
+      service.getConflictVersions(repoId, filePath)
+  );
+  ipcMain.handle(
+    "kachina:resolveConflict",
+    async (_event, repoId: string, filePath: string, resolution: ConflictResolution) =>
+      service.resolveConflict(repoId, filePath, resolution)
+  );
   ipcMain.handle("kachina:pushRepo", async (_event, repoId: string) => service.pushRepo(repoId));
+  ipcMain.handle("kachina:publishBranch", async (_event, repoId: string, remote: string) =>
+    service.publishBranch(repoId, remote)
+  );
   ipcMain.handle("kachina:syncRepo", async (_event, repoId: string) => service.syncRepo(repoId));
   ipcMain.handle("kachina:openInEditor", async (_event, repoId: string) =>
     service.openInEditor(repoId)
@@ -38,6 +202,15 @@ export function registerIpcHandlers(service: RepoService): void {
   ipcMain.handle("kachina:cancelRepoOperation", async (_event, repoId: string) =>
     service.cancelRepoOperation(repoId)
   );
+  ipcMain.handle("kachina:runBulkAction", async (_event, input: BulkActionInput) =>
+    service.runBulkAction(input)
+  );
+  ipcMain.handle("kachina:fastForwardAll", async (_event, groupId: string) =>
+    service.fastForwardAll(groupId)
+  );
+  ipcMain.handle("kachina:cancelBulkAction", async (_event, groupId: string) =>
+    service.cancelBulkAction(groupId)
+  );
   ipcMain.handle("kachina:windowMinimize", (event) => {
     BrowserWindow.fromWebContents(event.sender)?.minimize();
   });
@@ -0,0 +1,38 @@
+import type { CommitSummary } from "../shared/types";
+
+const FIELD_SEPARATOR = "\x1f";
+
+export const LOG_ARGS = [
+  "log",
+  "-z",
+  "--topo-order",
+  "--format=%H%x1f%P%x1f%an%x1f%ae%x1f%at%x1f%D%x1f%s"
+];
+
+export function parseLog(stdout: string): CommitSummary[] {
+  return stdout
+    .split("\0")
+    .map((record) => record.replace(/^\n/, ""))
+    .filter(Boolean)
+    .map((record) => {
+      const [
+        oid = "",
+        parents = "",
+        authorName = "",
+        authorEmail = "",
+        authoredAt = "",
+        refs = "",
+        subject = ""
+      ] = record.split(FIELD_SEPARATOR);
+      const seconds = Number.parseInt(authoredAt, 10);
+      return {
+        oid,
+        parents: parents.split(" ").filter(Boolean),
+        authorName,
+        authorEmail,
+        authoredAt: new Date(Number.isFinite(seconds) ? seconds * 1_000 : 0).toISOString(),
+        subject,
+        refs: refs.split(", ").filter(Boolean)
+      };
+    });
+}
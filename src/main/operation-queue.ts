@@ -1,10 +1,18 @@
 import { newId } from "./ids";
-import type { ActiveOperation } from "../shared/types";
+import type {
+  ActiveOperation,
+  OperationPriority,
+  QueuedOperation
+} from "../shared/types";
 
 interface QueueTask<T> {
   id: string;
   repoId: string;
+  environmentKey: string;
+  groupId: string | null;
   name: string;
+  priority: OperationPriority;
+  enqueuedAt: string;
   timeoutMs: number;
   run: (signal: AbortSignal) => Promise<T>;
   resolve: (value: T) => void;
@@ -14,69 +22,179 @@ interface QueueTask<T> {
 interface QueueCallbacks {
   onStart: (repoId: string, operation: ActiveOperation) => void;
   onFinish: (repoId: string, operationId: string) => void;
+  onQueueChanged: (queued: Record<string, QueuedOperation[]>) => void;
+}
+
+export interface QueueLimits {
+  maxConcurrent: number;
+  maxConcurrentPerEnvironment: number | null;
+}
+
+export interface EnqueueOptions {
+  timeoutMs?: number;
+  environmentKey?: string;
+  priority?: OperationPriority;
+  /** Tags the task so a bulk operation can be cancelled as a whole. */
+  groupId?: string;
 }
 
 export class OperationQueue {
   private readonly tasks: QueueTask<unknown>[] = [];
-  private active:
-    | {
-        task: QueueTask<unknown>;
-        controller: AbortController;
-      }
-    | undefined;
+  private readonly active = new Map<
+    string,
+    {
+      task: QueueTask<unknown>;
+      controller: AbortController;
+    }
+  >();
 
-  constructor(private readonly callbacks: QueueCallbacks) {}
+  constructor(
+    private readonly callbacks: QueueCallbacks,
+    private limits: QueueLimits = { maxConcurrent: 1, maxConcurrentPerEnvironment: null }
+  ) {}
+
+  setLimits(limits: QueueLimits): void {
+    this.limits = limits;
+    this.pump();
+  }
 
   enqueue<T>(
     repoId: string,
     name: string,
     run: (signal: AbortSignal) => Promise<T>,
-    timeoutMs = 30_000
+    options: EnqueueOptions = {}
   ): Promise<T> {
     return new Promise<T>((resolve, reject) => {
-      this.tasks.push({
+      const task: QueueTask<unknown> = {
         id: newId("op"),
         repoId,
+        environmentKey: options.environmentKey ?? "default",
+        groupId: options.groupId ?? null,
         name,
-        timeoutMs,
+        priority: options.priority ?? "interactive",
+        enqueuedAt: new Date().toISOString(),
+        timeoutMs: options.timeoutMs ?? 30_000,
         run,
         resolve: resolve as (value: unknown) => void,
         reject
-      });
+      };
+      // Interactive work goes ahead of every queued background task but stays FIFO among its peers.
+      const insertAt =
+        task.priority === "interactive"
+          ? this.tasks.findIndex((queued) => queued.priority === "background")
+          : -1;
+      if (insertAt === -1) {
+        this.tasks.push(task);
+      } else {
+        this.tasks.splice(insertAt, 0, task);
+      }
       this.pump();
     });
   }
 
   cancelRepo(repoId: string): void {
-    if (this.active?.task.repoId === repoId) {
-      this.active.controller.abort();
+    this.active.get(repoId)?.controller.abort();
+    this.cancelPending((task) => task.repoId === repoId);
+  }
+
+  cancelGroup(groupId: string): void {
+    for (const { task, controller } of this.active.values()) {
+      if (task.groupId === groupId) {
+        controller.abort();
+      }
     }
+    this.cancelPending((task) => task.groupId === groupId);
+  }
 
-    const pending = this.tasks.filter((task) => task.repoId === repoId);
+  private cancelPending(matches: (task: QueueTask<unknown>) => boolean): void {
+    const pending = this.tasks.filter(matches);
     if (pending.length === 0) {
       return;
     }
 
-    const remaining = this.tasks.filter((task) => task.repoId !== repoId);
+    const remaining = this.tasks.filter((task) => !matches(task));
     this.tasks.length = 0;
     this.tasks.push(...remaining);
     for (const task of pending) {
       task.reject(new Error("Operation cancelled before execution"));
     }
+    this.notifyQueueChanged();
+  }
+
+  private canStart(task: QueueTask<unknown>): boolean {
+    if (this.active.has(task.repoId)) {
+      return false;
+    }
+    const perEnvironment = this.limits.maxConcurrentPerEnvironment;
+    if (perEnvironment === null) {
+      return true;
+    }
+    let running = 0;
+    for (const { task: activeTask } of this.active.values()) {
+      if (activeTask.environmentKey === task.environmentKey) {
+        running += 1;
+      }
+    }
+    return running < Math.max(1, perEnvironment);
   }
 
   private pump(): void {
-    if (this.active || this.tasks.length === 0) {
-      return;
+    const maxConcurrent = Math.max(1, this.limits.maxConcurrent);
+    let index = 0;
+    while (index < this.tasks.length && this.active.size < maxConcurrent) {
+      const task = this.tasks[index];
+      if (!this.canStart(task)) {
+        index += 1;
+        continue;
+      }
+      this.tasks.splice(index, 1);
+      this.start(task);
     }
+    this.notifyQueueChanged();
+  }
 
-    const task = this.tasks.shift();
-    if (!task) {
-      return;
+  private notifyQueueChanged(): void {
+    const queued: Record<string, QueuedOperation[]> = {};
+    // Tasks next in line for their repo take free slots in queue order.
+    const slotTakers: QueueTask<unknown>[] = [];
+    for (const task of this.tasks) {
+      const operations = (queued[task.repoId] ??= []);
+      let queuedBehind = operations.length + (this.active.has(task.repoId) ? 1 : 0);
+      if (queuedBehind === 0) {
+        queuedBehind = this.countSlotHolders(task, slotTakers);
+        slotTakers.push(task);
+      }
+      operations.push({
+        id: task.id,
+        name: task.name,
+        priority: task.priority,
+        enqueuedAt: task.enqueuedAt,
+        queuedBehind
+      });
     }
+    this.callbacks.onQueueChanged(queued);
+  }
+
+  /**
+   * Counts the running tasks and the earlier queued ones that hold or will take the slots
+   * `task` needs, or 0 when a slot is free for it.
+   */
+  private countSlotHolders(task: QueueTask<unknown>, slotTakers: QueueTask<unknown>[]): number {
+    const ahead = [...[...this.active.values()].map((entry) => entry.task), ...slotTakers];
+    const globalFull = ahead.length >= Math.max(1, this.limits.maxConcurrent);
+    const perEnvironment = this.limits.maxConcurrentPerEnvironment;
+    const sameEnvironment = ahead.filter(
+      (other) => other.environmentKey === task.environmentKey
+    ).length;
+    if (!globalFull && perEnvironment !== null && sameEnvironment >= Math.max(1, perEnvironment)) {
+      return sameEnvironment;
+    }
+    return globalFull ? ahead.length : 0;
+  }
 
+  private start(task: QueueTask<unknown>): void {
     const controller = new AbortController();
-    this.active = { task, controller };
+    this.active.set(task.repoId, { task, controller });
     this.callbacks.onStart(task.repoId, {
       id: task.id,
       name: task.name,
@@ -92,7 +210,7 @@ export class OperationQueue {
       .finally(() => {
         clearTimeout(timeout);
         this.callbacks.onFinish(task.repoId, task.id);
-        this.active = undefined;
+        this.active.delete(task.repoId);
         this.pump();
       });
   }
@@ -0,0 +1,121 @@
+import type { DiffLine, DiffSelection, FileDiff } from "../shared/types";
+
+const NO_NEWLINE_MARKER = "\\ No newline at end of file";
+
+const C_QUOTED: Record<string, string> = {
+  "\x07": "\\a",
+  "\b": "\\b",
+  "\f": "\\f",
+  "\n": "\\n",
+  "\r": "\\r",
+  "\t": "\\t",
+  "\v": "\\v",
+  "\\": "\\\\",
+  '"': '\\"'
+};
+
+/** Quotes a patch path the way git does, so `git apply` reads it back unchanged. */
+function quotePath(value: string): string {
+  if (!/["\\\x00-\x1f\x7f]/.test(value)) {
+    return value;
+  }
+  let quoted = "";
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (C_QUOTED[char]) {
+      quoted += C_QUOTED[char];
+    } else if (code < 0x20 || code === 0x7f) {
+      quoted += `\\${code.toString(8).padStart(3, "0")}`;
+    } else {
+      quoted += char;
+    }
+  }
+  return `"${quoted}"`;
+}
+
+/** Formats a ---/+++ name; git terminates names containing spaces with a tab. */
+function headerName(prefix: string, filePath: string): string {
+  const name = quotePath(`${prefix}${filePath}`);
+  return name.includes(" ") && !name.startsWith('"') ? `${name}\t` : name;
+}
+
+function formatRange(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+/**
+ * Builds a single-hunk patch containing only the selected changes.
+ *
+ * Staging applies the patch forwards to the index, so unselected additions are dropped and
+ * unselected deletions stay as context. Unstaging applies it with `--reverse`, where the
+ * index holds the new side: unselected additions become context and unselected deletions
+ * are dropped.
+ */
+export function buildSelectionPatch(
+  diff: FileDiff,
+  selection: DiffSelection,
+  reverse: boolean
+): string {
+  if (diff.isBinary) {
+    throw new Error("Binary files can only be staged or unstaged as a whole.");
+  }
+  const isNewFile = diff.status === "untracked" || diff.status === "added";
+  if (diff.status === "deleted" || diff.status === "renamed" || diff.status === "copied") {
+    throw new Error(`${diff.path} is ${diff.status}; stage or unstage the whole file instead.`);
+  }
+  if (isNewFile && reverse) {
+    throw new Error(`${diff.path} is a new file; unstage the whole file instead.`);
+  }
+
+  const hunk = diff.hunks[selection.hunkIndex];
+  if (!hunk || hunk.header !== selection.hunkHeader) {
+    throw new Error("The diff has changed since it was loaded. Reload it and try again.");
+  }
+
+  const selected = selection.lineIndexes === null ? null : new Set(selection.lineIndexes);
+  const body: string[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  let changeCount = 0;
+
+  const emit = (marker: string, line: DiffLine) => {
+    body.push(`${marker}${line.content}`);
+    if (line.noNewlineAtEnd) {
+      body.push(NO_NEWLINE_MARKER);
+    }
+    if (marker !== "+") {
+      oldCount += 1;
+    }
+    if (marker !== "-") {
+      newCount += 1;
+    }
+  };
+
+  hunk.lines.forEach((line, index) => {
+    const isSelected = selected === null || selected.has(index);
+    if (line.kind === "context") {
+      emit(" ", line);
+    } else if (isSelected) {
+      emit(line.kind === "add" ? "+" : "-", line);
+      changeCount += 1;
+    } else if ((line.kind === "delete") !== reverse) {
+      // The line exists on the side the patch is applied to, so it must stay put.
+      emit(" ", line);
+    }
+  });
+
+  if (changeCount === 0) {
+    throw new Error("Select at least one added or removed line.");
+  }
+
+  const oldName = isNewFile ? "/dev/null" : headerName("a/", diff.path);
+  return [
+    `diff --git ${quotePath(`a/${diff.path}`)} ${quotePath(`b/${diff.path}`)}`,
+    ...(isNewFile ? [`new file mode ${diff.newFileMode ?? "100644"}`] : []),
+    `--- ${oldName}`,
+    `+++ ${headerName("b/", diff.path)}`,
+    `@@ -${formatRange(hunk.oldStart, oldCount)} +${formatRange(hunk.newStart, newCount)} @@`,
+    ...body,
+    ""
+  ].join("\n");
+}
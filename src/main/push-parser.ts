@@ -0,0 +1,86 @@
+import type { PushRefResult, PushRefState } from "../shared/types";
+
+export const PUSH_ARGS = ["push", "--porcelain"];
+
+const FLAG_STATES: Record<string, PushRefState> = {
+  " ": "fastForward",
+  "+": "forced",
+  "*": "new",
+  "-": "deleted",
+  "=": "upToDate"
+};
+
+/** `<flag>\t<from>:<to>\t<summary> (<reason>)`; a fast-forward's flag is a space. */
+const REF_LINE = /^([ +*\-=!])\t([^\t:]*):([^\t]+)\t(.*?)(?: \((.+)\))?$/;
+
+/**
+ * Reads the ref lines of `git push --porcelain`. Both kinds of rejection share the `!` flag
+ * and differ only in the summary; a remote explains its refusal on stderr as `remote:` lines.
+ */
+export function parsePushOutput(stdout: string, stderr: string): PushRefResult[] {
+  const remoteLines = stderr
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith("remote: "))
+    .map((line) => line.slice("remote: ".length).trim())
+    .filter(Boolean);
+  const results: PushRefResult[] = [];
+  for (const line of stdout.split(/\r?\n/)) {
+    const match = line.match(REF_LINE);
+    if (!match) {
+      continue;
+    }
+    const [, flag, localRef, remoteRef, summary, reason] = match;
+    const state: PushRefState =
+      flag === "!"
+        ? summary.startsWith("[remote ")
+          ? "remoteRejected"
+          : "rejected"
+        : FLAG_STATES[flag];
+    results.push({
+      localRef,
+      remoteRef,
+      state,
+      summary,
+      reason: reason ?? null,
+      remoteMessage:
+        state === "remoteRejected" && remoteLines.length > 0 ? remoteLines.join("\n") : null
+    });
+  }
+  return results;
+}
+
+export function isPushRejected(result: PushRefResult): boolean {
+  return result.state === "rejected" || result.state === "remoteRejected";
+}
+
+/** Rejected because the remote has commits we lack, which a sync brings in. */
+export function remoteHasNewCommits(result: PushRefResult): boolean {
+  return (
+    result.state === "rejected" &&
+    (result.reason === "fetch first" || result.reason === "non-fast-forward")
+  );
+}
+
+export function describePushResult(result: PushRefResult): string {
+  const ref = result.remoteRef.replace(/^refs\/(heads|tags)\//, "");
+  switch (result.state) {
+    case "fastForward":
+      return `${ref} pushed`;
+    case "forced":
+      return `${ref} force-pushed`;
+    case "new":
+      return `${ref} created on the remote`;
+    case "deleted":
+      return `${ref} deleted on the remote`;
+    case "upToDate":
+      return `${ref} already up to date`;
+    case "rejected":
+      return remoteHasNewCommits(result)
+        ? `${ref} rejected: remote has new commits, sync first`
+        : `${ref} rejected: ${result.reason ?? "no reason given"}`;
+    case "remoteRejected":
+      return `${ref} rejected by the remote: ${
+        result.remoteMessage?.replace(/\n/g, " ") ?? result.reason ?? "no reason given"
+      }`;
+  }
+}
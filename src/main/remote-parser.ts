@@ -0,0 +1,25 @@
+import type { RepoRemote } from "../shared/types";
+
+export const REMOTE_LIST_ARGS = ["remote", "-v"];
+
+const REMOTE_LINE = /^([^\t]+)\t(.+) \((fetch|push)\)$/;
+
+/** Reads `git remote -v`, which lists each remote once for fetching and once for pushing. */
+export function parseRemoteList(stdout: string): RepoRemote[] {
+  const remotes = new Map<string, RepoRemote>();
+  for (const line of stdout.split(/\r?\n/)) {
+    const match = line.match(REMOTE_LINE);
+    if (!match) {
+      continue;
+    }
+    const [, name, url, direction] = match;
+    const remote = remotes.get(name) ?? { name, fetchUrl: url, pushUrl: url };
+    if (direction === "fetch") {
+      remote.fetchUrl = url;
+    } else {
+      remote.pushUrl = url;
+    }
+    remotes.set(name, remote);
+  }
+  return [...remotes.values()];
+}
@@ -11,8 +11,28 @@ import {
   shellEscape,
   type RunCommandOptions
 } from "./command-runner";
+import {
+  BRANCH_LIST_ARGS,
+  countUnpublishedCommits,
+  parseBranchList,
+  unpublishedCommitsArgs
+} from "./branch-parser";
+import { COMMIT_SHOW_ARGS, DIFF_ARGS, parseDiffOutput } from "./diff-parser";
 import { newId } from "./ids";
-import { OperationQueue } from "./operation-queue";
+import { LOG_ARGS, parseLog } from "./log-parser";
+import { OperationQueue, type QueueLimits } from "./operation-queue";
+import { buildSelectionPatch } from "./patch-builder";
+import {
+  describePushResult,
+  isPushRejected,
+  parsePushOutput,
+  PUSH_ARGS,
+  remoteHasNewCommits
+} from "./push-parser";
+import { parseRemoteList, REMOTE_LIST_ARGS } from "./remote-parser";
+import { RepoWatcher } from "./repo-watcher";
+import { parseNumstat, parseStashList, STASH_LIST_ARGS } from "./stash-parser";
+import { parseStatusOutput, STATUS_ARGS } from "./status-parser";
 import {
   defaultSettings,
   JsonStateStore,
@@ -21,16 +41,61 @@ import {
 import type { DesktopLauncher } from "./desktop-launcher";
 import type {
   AddRepoInput,
+  AmendCommitInput,
+  BranchAlert,
+  BranchInfo,
+  BulkAction,
+  BulkActionInput,
+  BulkActionResult,
+  BulkRepoOutcome,
+  CheckoutBranchInput,
   CommandTranscript,
+  CommitDetails,
+  ConflictResolution,
+  ConflictVersions,
+  CreateBranchInput,
+  CreateStashInput,
   DashboardSnapshot,
+  DiffSelection,
+  DirtyCheckoutStrategy,
+  FileDiff,
+  FileDiffOptions,
+  KachinaEvent,
+  KachinaEventListener,
+  LogPage,
+  LogQuery,
+  MergeRebaseAction,
+  OperationPriority,
+  PushRefResult,
+  RecoveryPoint,
   RepoActionResult,
   RepoEnvironment,
+  RepoFetchPolicy,
+  RepoFollowUp,
+  RepoGroup,
+  RepoGroupRule,
+  RepoGroupRuleField,
+  RepoPatch,
   RepoRecord,
+  RepoRemote,
+  RepoSortMode,
   RepoStatusSummary,
+  StashEntry,
+  StashFileStat,
+  SyncMode,
+  SyncStrategy,
   UpdateSettingsInput
 } from "../shared/types";
 
+type FetchRecord = Pick<RepoStatusSummary, "lastFetchedAt" | "lastFetchError">;
+
 const HISTORY_LIMIT = 40;
+const DAY_MS = 24 * 60 * 60 * 1_000;
+const RECOVERY_RETENTION_MS = 7 * DAY_MS;
+const LOG_PAGE_SIZE = 50;
+const LOG_PAGE_LIMIT = 500;
+const LOG_CURSOR = /^([0-9a-f]{40,64}):(\d+)$/;
+const COMMIT_OID = /^[0-9a-f]{4,64}$/i;
 
 function nowIso(): string {
   return new Date().toISOString();
@@ -56,144 +121,231 @@ function normalizePathKey(repoPath: string, environment: RepoEnvironment): strin
   return `wsl:${environment.distro}:${repoPath}`;
 }
 
-function parseChangedPath(raw: string): string {
-  const arrowIndex = raw.indexOf(" -> ");
-  if (arrowIndex === -1) {
-    return raw;
+function environmentKey(environment: RepoEnvironment): string {
+  return environment.kind === "windows" ? "windows" : `wsl:${environment.distro}`;
+}
+
+function normalizeConcurrencyLimit(value: unknown, fallback: number): number {
+  const limit = Number(value);
+  return Number.isFinite(limit) && limit >= 1 ? Math.floor(limit) : fallback;
+}
+
+const SYNC_MODES: readonly SyncMode[] = ["rebase", "merge", "ff-only", "fetch-only"];
+const GROUP_RULE_FIELDS: readonly RepoGroupRuleField[] = ["path", "environment", "remoteUrl"];
+const REPO_SORT_MODES: readonly RepoSortMode[] = [
+  "attention",
+  "custom",
+  "lastActivity",
+  "lastCommit",
+  "changedFiles",
+  "environment"
+];
+const FETCH_POLICIES: readonly RepoFetchPolicy[] = ["default", "always", "never", "interval"];
+const FETCH_ARGS = ["fetch", "--all", "--prune", "--quiet"];
+const DEFAULT_FETCH_INTERVAL_MINUTES = 30;
+const MIN_REFRESH_INTERVAL_SECONDS = 30;
+/** How often the scheduler looks for repos whose refresh or fetch is due. */
+const SCHEDULER_TICK_MS = 15_000;
+const ACCENT_COLOR = /^#[0-9a-f]{6}$/i;
+/** `ls-remote` only has to say hello, so a remote that takes longer counts as unreachable. */
+const REMOTE_TEST_TIMEOUT_MS = 15_000;
+const BULK_ACTIONS: readonly BulkAction[] = ["fetch", "pull", "push", "sync", "fastForward"];
+const NO_UPSTREAM = /The current branch (\S+) has no upstream branch/;
+/** What `git pull` says on a branch without an upstream. */
+const NO_TRACKING_INFORMATION = "There is no tracking information for the current branch";
+
+/**
+ * A failure that reports more than its message: what a push did per ref, or a follow-up
+ * action the UI can offer to resolve it.
+ */
+class ActionDetailsError extends Error {
+  constructor(
+    message: string,
+    public readonly details: { followUp?: RepoFollowUp; pushResults?: PushRefResult[] }
+  ) {
+    super(message);
   }
-  return raw.slice(arrowIndex + 4);
 }
 
-function escapeFindPattern(value: string): string {
-  return value
-    .replaceAll("\\", "\\\\")
-    .replaceAll("*", "\\*")
-    .replaceAll("?", "\\?")
-    .replaceAll("[", "\\[")
-    .replaceAll("]", "\\]");
+function noUpstreamError(branch: string): ActionDetailsError {
+  return new ActionDetailsError(
+    `${branch} has no upstream branch yet. Publish it to push it and set one.`,
+    { followUp: "publish" }
+  );
 }
 
-function parseStatusOutput(stdout: string): Omit<RepoStatusSummary, "refreshedAt" | "mergeInProgress" | "rebaseInProgress" | "inaccessible"> {
-  const lines = stdout.split(/\r?\n/).filter(Boolean);
-  const header = lines.find((line) => line.startsWith("## ")) ?? "## HEAD (no branch)";
-  const changedLines = lines.filter((line) => !line.startsWith("## "));
-
-  let branch = "detached";
-  let isDetached = false;
-  let hasUpstream = false;
-  let ahead = 0;
-  let behind = 0;
-
-  const summary = header.slice(3).trim();
-  if (summary.startsWith("HEAD (")) {
-    isDetached = true;
-    branch = "detached";
-  } else if (summary.startsWith("No commits yet on ")) {
-    branch = summary.replace("No commits yet on ", "");
-  } else {
-    const [localBranch, remoteInfo] = summary.split("...");
-    branch = (localBranch || "unknown").trim();
-    if (remoteInfo) {
-      hasUpstream = true;
-      const bracketsMatch = remoteInfo.match(/\[(.+?)\]/);
-      if (bracketsMatch) {
-        const details = bracketsMatch[1];
-        const aheadMatch = details.match(/ahead (\d+)/);
-        const behindMatch = details.match(/behind (\d+)/);
-        ahead = aheadMatch ? Number.parseInt(aheadMatch[1], 10) : 0;
-        behind = behindMatch ? Number.parseInt(behindMatch[1], 10) : 0;
-      }
-    }
+/** A hook's own message may already end the sentence. */
+function joinPushResults(results: PushRefResult[]): string {
+  return results.map(describePushResult).join("; ").replace(/\.$/, "");
+}
+
+/** Replaces a successful push's generic message with what happened to each ref. */
+function withPushResults(
+  result: RepoActionResult,
+  pushResults: PushRefResult[]
+): RepoActionResult {
+  if (!result.ok || pushResults.length === 0) {
+    return result;
   }
+  return {
+    ...result,
+    message: `${result.message.replace(/\.$/, "")}: ${joinPushResults(pushResults)}.`,
+    pushResults
+  };
+}
 
-  let stagedCount = 0;
-  let modifiedCount = 0;
-  let untrackedCount = 0;
-  let conflictedCount = 0;
+function normalizeSyncStrategy(value: unknown, fallback: SyncStrategy): SyncStrategy {
+  const candidate = (value ?? {}) as Partial<SyncStrategy>;
+  return {
+    mode: SYNC_MODES.includes(candidate.mode as SyncMode)
+      ? (candidate.mode as SyncMode)
+      : fallback.mode,
+    autostash:
+      typeof candidate.autostash === "boolean" ? candidate.autostash : fallback.autostash,
+    push: typeof candidate.push === "boolean" ? candidate.push : fallback.push
+  };
+}
 
-  const changedFiles = changedLines
-    .map((line) => {
-      if (line.startsWith("?? ")) {
-        untrackedCount += 1;
-        return {
-          path: parseChangedPath(line.slice(3)),
-          indexStatus: "?",
-          worktreeStatus: "?",
-          isUntracked: true,
-          isStaged: false,
-          isUnstaged: true,
-          isConflicted: false
-        };
-      }
+function describeSyncStrategy(strategy: SyncStrategy, isOverride: boolean): string {
+  const parts: string[] = [strategy.mode];
+  if (strategy.mode !== "fetch-only") {
+    parts.push(strategy.autostash ? "autostash" : "no autostash");
+    parts.push(strategy.push ? "push" : "no push");
+  }
+  return `Sync strategy: ${parts.join(", ")}${isOverride ? " (repo override)" : ""}`;
+}
 
-      if (line.length < 4) {
-        return null;
-      }
+function timestamp(value: string | null | undefined): number {
+  return value ? Date.parse(value) || 0 : 0;
+}
 
-      const indexStatus = line[0];
-      const worktreeStatus = line[1];
-      const changedPath = parseChangedPath(line.slice(3));
-      const isStaged = indexStatus !== " " && indexStatus !== "?";
-      const isUnstaged = worktreeStatus !== " ";
-      const isConflicted =
-        indexStatus === "U" ||
-        worktreeStatus === "U" ||
-        (indexStatus === "A" && worktreeStatus === "A") ||
-        (indexStatus === "D" && worktreeStatus === "D");
-
-      if (isStaged) {
-        stagedCount += 1;
-      }
-      if (isUnstaged) {
-        modifiedCount += 1;
+/** Orders repos for one sort mode, newest or largest first; ties fall back to the name. */
+function compareRepos(
+  mode: RepoSortMode,
+  customOrder: string[]
+): (a: RepoRecord, b: RepoRecord) => number {
+  const rank = (repo: RepoRecord): number => {
+    switch (mode) {
+      case "attention":
+        return repo.status?.needsAttention ? -1 : 0;
+      case "custom": {
+        const index = customOrder.indexOf(repo.id);
+        return index === -1 ? Number.MAX_SAFE_INTEGER : index;
       }
-      if (isConflicted) {
-        conflictedCount += 1;
+      case "lastActivity":
+        return -Math.max(timestamp(repo.lastActionAt), timestamp(repo.status?.lastCommitAt));
+      case "lastCommit":
+        return -timestamp(repo.status?.lastCommitAt);
+      case "changedFiles":
+        return -(repo.status?.changedFiles.length ?? 0);
+      case "environment":
+        return 0;
+    }
+  };
+  return (a: RepoRecord, b: RepoRecord): number => {
+    if (mode === "environment") {
+      const byEnvironment = environmentKey(a.environment).localeCompare(
+        environmentKey(b.environment)
+      );
+      if (byEnvironment !== 0) {
+        return byEnvironment;
       }
+    }
+    return rank(a) - rank(b) || a.displayName.localeCompare(b.displayName);
+  };
+}
 
-      return {
-        path: changedPath,
-        indexStatus,
-        worktreeStatus,
-        isUntracked: false,
-        isStaged,
-        isUnstaged,
-        isConflicted
-      };
-    })
-    .filter((file): file is NonNullable<typeof file> => Boolean(file));
+/** Drops nameless or duplicate groups and invalid rules, and gives new groups an id. */
+function normalizeRepoGroups(value: unknown): RepoGroup[] {
+  const groups: RepoGroup[] = [];
+  for (const raw of Array.isArray(value) ? (value as Partial<RepoGroup>[]) : []) {
+    const name = typeof raw?.name === "string" ? raw.name.trim() : "";
+    if (!name || groups.some((group) => group.name.toLowerCase() === name.toLowerCase())) {
+      continue;
+    }
+    const rules = (Array.isArray(raw.rules) ? raw.rules : []).flatMap((rule) => {
+      const pattern = typeof rule?.pattern === "string" ? rule.pattern.trim() : "";
+      return pattern && GROUP_RULE_FIELDS.includes(rule.field)
+        ? [{ field: rule.field, pattern }]
+        : [];
+    });
+    const id = typeof raw.id === "string" ? raw.id.trim() : "";
+    groups.push({
+      id: id && !groups.some((group) => group.id === id) ? id : newId("group"),
+      name,
+      rules
+    });
+  }
+  return groups;
+}
 
-  const hasStaged = stagedCount > 0;
-  const hasUntracked = untrackedCount > 0;
-  const isDirty = stagedCount > 0 || modifiedCount > 0 || untrackedCount > 0;
-  const needsAttention = isDirty || ahead > 0 || behind > 0 || conflictedCount > 0;
+function matchesGroupRule(repo: RepoRecord, rule: RepoGroupRule): boolean {
+  const pattern = rule.pattern.toLowerCase();
+  if (rule.field === "environment") {
+    return environmentKey(repo.environment).toLowerCase().startsWith(pattern);
+  }
+  const values =
+    rule.field === "path"
+      ? [repo.path]
+      : repo.remotes.flatMap((remote) => [remote.fetchUrl, remote.pushUrl]);
+  return values.some((value) => value.toLowerCase().includes(pattern));
+}
 
-  return {
-    needsAttention,
-    isDirty,
-    hasStaged,
-    hasUntracked,
-    stagedCount,
-    modifiedCount,
-    untrackedCount,
-    conflictedCount,
-    changedFiles,
-    branch,
-    isDetached,
-    hasUpstream,
-    ahead,
-    behind
-  };
+/** Why a repo is not safe to fast-forward unattended, or `null` when it is. */
+function fastForwardSkipReason(
+  status: Pick<
+    RepoStatusSummary,
+    "isDirty" | "hasUpstream" | "ahead" | "behind" | "mergeInProgress" | "rebaseInProgress"
+  >
+): string | null {
+  if (status.mergeInProgress || status.rebaseInProgress) {
+    return "A merge or rebase is in progress.";
+  }
+  if (status.isDirty) {
+    return "Has uncommitted changes.";
+  }
+  if (!status.hasUpstream) {
+    return "No upstream branch.";
+  }
+  if (status.ahead > 0) {
+    return `Has ${status.ahead} unpushed commit${status.ahead === 1 ? "" : "s"}.`;
+  }
+  if (status.behind === 0) {
+    return "Already up to date.";
+  }
+  return null;
+}
+
+function escapeFindPattern(value: string): string {
+  return value
+    .replaceAll("\\", "\\\\")
+    .replaceAll("*", "\\*")
+    .replaceAll("?", "\\?")
+    .replaceAll("[", "\\[")
+    .replaceAll("]", "\\]");
 }
 
 export class RepoService {
   private readonly queue: OperationQueue;
+  private readonly watcher: RepoWatcher;
+  private readonly listeners = new Set<KachinaEventListener>();
   private state: PersistedState = {
     settings: { ...defaultSettings },
     repos: []
   };
   private autoRefreshTimer: NodeJS.Timeout | null = null;
   private refreshPromise: Promise<void> | null = null;
+  private fetchPromise: Promise<void> | null = null;
+  private scheduledRefreshPromise: Promise<void> | null = null;
+  /** Epoch ms of each repo's last refresh and last fetch attempt, for the scheduler. */
+  private readonly refreshedAt = new Map<string, number>();
+  private readonly fetchedAt = new Map<string, number>();
+  /** Fetch outcomes the next local pass has not yet written into the repo's status. */
+  private readonly pendingFetches = new Map<string, FetchRecord>();
+  /** Repos with a watcher refresh that has not started yet; it will see later changes too. */
+  private readonly watcherRefreshesQueued = new Set<string>();
+  private schedulerStartedAt = 0;
+  private readonly bulkGroups = new Map<string, { cancelled: boolean }>();
 
   constructor(
     private readonly store: JsonStateStore,
@@ -206,13 +358,33 @@ export class RepoService {
           return;
         }
         repo.activeOperation = operation;
+        this.emit({ type: "operationStarted", repoId, operation });
       },
-      onFinish: (repoId) => {
+      onFinish: (repoId, operationId) => {
         const repo = this.state.repos.find((item) => item.id === repoId);
         if (!repo) {
           return;
         }
         repo.activeOperation = null;
+        this.emit({ type: "operationFinished", repoId, operationId });
+      },
+      onQueueChanged: (queued) => {
+        for (const repo of this.state.repos) {
+          repo.queuedOperations = queued[repo.id] ?? [];
+        }
+        this.emit({ type: "queueChanged", queued });
+      }
+    });
+    this.watcher = new RepoWatcher({
+      onChange: (repoId, changedPaths) => {
+        void this.refreshChangedRepo(repoId, changedPaths);
+      },
+      onUnavailable: (repoIds, reason) => {
+        for (const repo of this.state.repos.filter((item) => repoIds.includes(item.id))) {
+          repo.watching = false;
+          repo.watchError = reason;
+          this.emitRepo(repo);
+        }
       }
     });
   }
@@ -226,14 +398,56 @@ export class RepoService {
     this.state.settings.ignoredRepos = this.normalizeIgnoredRepos(
       this.state.settings.ignoredRepos ?? []
     );
+    this.state.settings.syncStrategy = normalizeSyncStrategy(
+      this.state.settings.syncStrategy,
+      defaultSettings.syncStrategy
+    );
+    this.state.settings.repoGroups = normalizeRepoGroups(this.state.settings.repoGroups);
+    this.state.settings.repoSortMode = REPO_SORT_MODES.includes(this.state.settings.repoSortMode)
+      ? this.state.settings.repoSortMode
+      : defaultSettings.repoSortMode;
+    for (const key of ["pinnedRepoIds", "customRepoOrder"] as const) {
+      const ids = this.state.settings[key];
+      this.state.settings[key] = Array.isArray(ids) ? ids : [];
+    }
     for (const repo of this.state.repos) {
       repo.activeOperation = null;
+      repo.queuedOperations = [];
       repo.transcripts = Array.isArray(repo.transcripts) ? repo.transcripts : [];
+      repo.recoveryPoints = Array.isArray(repo.recoveryPoints) ? repo.recoveryPoints : [];
+      repo.syncStrategy = repo.syncStrategy
+        ? normalizeSyncStrategy(repo.syncStrategy, this.state.settings.syncStrategy)
+        : null;
+      if (repo.status) {
+        repo.status.stashes = Array.isArray(repo.status.stashes) ? repo.status.stashes : [];
+        repo.status.hasStaleStashes = repo.status.hasStaleStashes ?? false;
+        repo.status.branchAlerts = Array.isArray(repo.status.branchAlerts)
+          ? repo.status.branchAlerts
+          : [];
+        repo.status.lastCommitAt = repo.status.lastCommitAt ?? null;
+        repo.status.lastFetchedAt = repo.status.lastFetchedAt ?? null;
+        repo.status.lastFetchError = repo.status.lastFetchError ?? null;
+      }
       delete (repo as RepoRecord & { tags?: unknown }).tags;
+      delete (repo as RepoRecord & { remoteUrls?: unknown }).remoteUrls;
+      repo.remotes = Array.isArray(repo.remotes) ? repo.remotes : [];
+      repo.manualGroupIds = Array.isArray(repo.manualGroupIds) ? repo.manualGroupIds : [];
+      repo.lastActionAt = repo.lastActionAt ?? null;
+      repo.notes = repo.notes ?? "";
+      repo.accentColor = repo.accentColor ?? null;
+      repo.editorCommand = repo.editorCommand ?? null;
+      repo.fetchPolicy = FETCH_POLICIES.includes(repo.fetchPolicy) ? repo.fetchPolicy : "default";
+      repo.fetchIntervalMinutes = repo.fetchIntervalMinutes ?? DEFAULT_FETCH_INTERVAL_MINUTES;
+      repo.refreshIntervalSeconds = repo.refreshIntervalSeconds ?? null;
+      repo.autoRefresh = repo.autoRefresh ?? true;
+      repo.watching = false;
+      repo.watchError = null;
+      this.applyRepoGroups(repo);
       repo.lastError = repo.lastError ?? null;
       repo.lastErrorTranscript = repo.lastErrorTranscript ?? null;
     }
     this.pruneIgnoredRepos();
+    this.queue.setLimits(this.queueLimits());
   }
 
   dispose(): void {
@@ -241,6 +455,7 @@ export class RepoService {
       clearInterval(this.autoRefreshTimer);
       this.autoRefreshTimer = null;
     }
+    this.watcher.reset();
   }
 
   startAutoRefresh(): void {
@@ -248,23 +463,38 @@ export class RepoService {
       clearInterval(this.autoRefreshTimer);
     }
 
-    const everyMs = Math.max(30, this.state.settings.refreshIntervalSeconds) * 1_000;
+    // Repos nobody has refreshed yet count from now, so startup does not refresh them twice.
+    this.schedulerStartedAt = Date.now();
     this.autoRefreshTimer = setInterval(() => {
-      void this.refreshAll();
-    }, everyMs);
+      if (!this.refreshPromise && !this.fetchPromise && !this.scheduledRefreshPromise) {
+        this.scheduledRefreshPromise = this.refreshDueRepos().finally(() => {
+          this.scheduledRefreshPromise = null;
+        });
+      }
+    }, SCHEDULER_TICK_MS);
     this.autoRefreshTimer.unref();
+
+    // Restarting also retries watches that failed, e.g. after inotify-tools was installed.
+    this.watcher.reset();
+    this.syncWatchers();
+  }
+
+  onEvent(listener: KachinaEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
   getSnapshot(): DashboardSnapshot {
+    const { pinnedRepoIds, customRepoOrder, repoSortMode } = this.state.settings;
+    const compare = compareRepos(repoSortMode, customRepoOrder);
+    const pinnedRank = (repo: RepoRecord): number => {
+      const index = pinnedRepoIds.indexOf(repo.id);
+      return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+    };
     return {
-      repos: [...this.state.repos].sort((a, b) => {
-        const aAttention = a.status?.needsAttention ? 1 : 0;
-        const bAttention = b.status?.needsAttention ? 1 : 0;
-        if (aAttention !== bAttention) {
-          return bAttention - aAttention;
-        }
-        return a.displayName.localeCompare(b.displayName);
-      }),
+      repos: [...this.state.repos].sort((a, b) => pinnedRank(a) - pinnedRank(b) || compare(a, b)),
       settings: { ...this.state.settings },
       generatedAt: nowIso()
     };
@@ -286,8 +516,9 @@ export class RepoService {
       path: candidate.path,
       environment: candidate.environment
     });
+    this.syncWatchers();
     await this.persist();
-    return this.getSnapshot();
+    return this.emitSnapshot();
   }
 
   async removeRepo(repoId: string): Promise<DashboardSnapshot> {
@@ -297,12 +528,118 @@ export class RepoService {
       ...this.state.settings.ignoredRepos,
       repoKey
     ]);
+    const settings = this.state.settings;
+    settings.pinnedRepoIds = settings.pinnedRepoIds.filter((id) => id !== repoId);
+    settings.customRepoOrder = settings.customRepoOrder.filter((id) => id !== repoId);
     this.queue.cancelRepo(repoId);
     this.state.repos = this.state.repos.filter((repo) => repo.id !== repoId);
+    this.syncWatchers();
+    await this.persist();
+    return this.emitSnapshot();
+  }
+
+  async setRepoSyncStrategy(
+    repoId: string,
+    strategy: SyncStrategy | null
+  ): Promise<DashboardSnapshot> {
+    const repo = this.getRepo(repoId);
+    repo.syncStrategy = strategy
+      ? normalizeSyncStrategy(strategy, this.state.settings.syncStrategy)
+      : null;
+    repo.updatedAt = nowIso();
+    this.emitRepo(repo);
     await this.persist();
     return this.getSnapshot();
   }
 
+  /** Edits survive rescans because discovery only ever adds repos it has not seen. */
+  async updateRepo(repoId: string, patch: RepoPatch): Promise<DashboardSnapshot> {
+    const repo = this.getRepo(repoId);
+    const displayName = patch.displayName?.trim();
+    if (displayName === "") {
+      throw new Error("Display name cannot be empty.");
+    }
+    if (patch.accentColor && !ACCENT_COLOR.test(patch.accentColor)) {
+      throw new Error("Accent colour must be a hex colour such as #3f6fb5.");
+    }
+    if (patch.fetchPolicy !== undefined && !FETCH_POLICIES.includes(patch.fetchPolicy)) {
+      throw new Error(`Unknown fetch policy: ${String(patch.fetchPolicy)}`);
+    }
+    const fetchIntervalMinutes =
+      patch.fetchIntervalMinutes === undefined
+        ? repo.fetchIntervalMinutes
+        : Math.floor(Number(patch.fetchIntervalMinutes));
+    if (!(fetchIntervalMinutes >= 1)) {
+      throw new Error("Fetch interval must be at least 1 minute.");
+    }
+    const refreshIntervalSeconds =
+      patch.refreshIntervalSeconds === undefined
+        ? repo.refreshIntervalSeconds
+        : patch.refreshIntervalSeconds === null
+          ? null
+          : Math.floor(Number(patch.refreshIntervalSeconds));
+    if (
+      refreshIntervalSeconds !== null &&
+      !(refreshIntervalSeconds >= MIN_REFRESH_INTERVAL_SECONDS)
+    ) {
+      throw new Error(`Refresh interval must be at least ${MIN_REFRESH_INTERVAL_SECONDS} seconds.`);
+    }
+
+    repo.displayName = displayName ?? repo.displayName;
+    repo.notes = patch.notes !== undefined ? patch.notes.trim() : repo.notes;
+    if (patch.accentColor !== undefined) {
+      repo.accentColor = patch.accentColor ? patch.accentColor.toLowerCase() : null;
+    }
+    if (patch.editorCommand !== undefined) {
+      repo.editorCommand = patch.editorCommand?.trim() || null;
+    }
+    repo.fetchPolicy = patch.fetchPolicy ?? repo.fetchPolicy;
+    repo.fetchIntervalMinutes = fetchIntervalMinutes;
+    repo.refreshIntervalSeconds = refreshIntervalSeconds;
+    repo.autoRefresh = patch.autoRefresh ?? repo.autoRefresh;
+    this.syncWatchers();
+    repo.updatedAt = nowIso();
+    await this.persist();
+    // A new name can move the repo in the list.
+    return this.emitSnapshot();
+  }
+
+  async setRepoGroups(repoId: string, groupIds: string[]): Promise<DashboardSnapshot> {
+    const repo = this.getRepo(repoId);
+    const known = new Set(this.state.settings.repoGroups.map((group) => group.id));
+    repo.manualGroupIds = [...new Set(groupIds)].filter((groupId) => known.has(groupId));
+    this.applyRepoGroups(repo);
+    repo.updatedAt = nowIso();
+    this.emitRepo(repo);
+    await this.persist();
+    return this.getSnapshot();
+  }
+
+  async setRepoPinned(repoId: string, pinned: boolean): Promise<DashboardSnapshot> {
+    const repo = this.getRepo(repoId);
+    const others = this.state.settings.pinnedRepoIds.filter((id) => id !== repo.id);
+    this.state.settings.pinnedRepoIds = pinned ? [...others, repo.id] : others;
+    await this.persist();
+    this.emit({ type: "settingsChanged", settings: { ...this.state.settings } });
+    return this.emitSnapshot();
+  }
+
+  async reorderRepos(repoIds: string[]): Promise<DashboardSnapshot> {
+    const known = new Set(this.state.repos.map((repo) => repo.id));
+    const order = [...new Set(repoIds)].filter((id) => known.has(id));
+    const pinned = new Set(this.state.settings.pinnedRepoIds);
+    this.state.settings.customRepoOrder = order;
+    // Pinned repos keep their place at the top in the order they were dragged to.
+    this.state.settings.pinnedRepoIds = [
+      ...order.filter((id) => pinned.has(id)),
+      ...this.state.settings.pinnedRepoIds.filter((id) => !order.includes(id))
+    ];
+    this.state.settings.repoSortMode = "custom";
+    await this.persist();
+    this.emit({ type: "settingsChanged", settings: { ...this.state.settings } });
+    return this.emitSnapshot();
+  }
+
   async updateSettings(input: UpdateSettingsInput): Promise<DashboardSnapshot> {
     const ignoredRepos =
       input.ignoredRepos !== undefined
@@ -314,12 +651,58 @@ export class RepoService {
       windowsRoots: input.windowsRoots ?? this.state.settings.windowsRoots,
       wslRoots: input.wslRoots ?? this.state.settings.wslRoots,
       ignorePatterns: input.ignorePatterns ?? this.state.settings.ignorePatterns,
-      ignoredRepos
+      ignoredRepos,
+      staleStashDays: Math.max(
+        0,
+        Math.floor(Number(input.staleStashDays ?? this.state.settings.staleStashDays) || 0)
+      ),
+      maxConcurrentOperations: normalizeConcurrencyLimit(
+        input.maxConcurrentOperations ?? this.state.settings.maxConcurrentOperations,
+        defaultSettings.maxConcurrentOperations
+      ),
+      maxConcurrentOperationsPerEnvironment:
+        input.maxConcurrentOperationsPerEnvironment === undefined
+          ? this.state.settings.maxConcurrentOperationsPerEnvironment
+          : input.maxConcurrentOperationsPerEnvironment === null
+            ? null
+            : normalizeConcurrencyLimit(input.maxConcurrentOperationsPerEnvironment, 1),
+      syncStrategy: normalizeSyncStrategy(
+        input.syncStrategy ?? this.state.settings.syncStrategy,
+        this.state.settings.syncStrategy
+      ),
+      fastForwardAfterRefresh: Boolean(
+        input.fastForwardAfterRefresh ?? this.state.settings.fastForwardAfterRefresh
+      ),
+      repoGroups: normalizeRepoGroups(input.repoGroups ?? this.state.settings.repoGroups),
+      repoSortMode:
+        input.repoSortMode && REPO_SORT_MODES.includes(input.repoSortMode)
+          ? input.repoSortMode
+          : this.state.settings.repoSortMode,
+      // Only the dedicated pin and reorder calls change these.
+      pinnedRepoIds: this.state.settings.pinnedRepoIds,
+      customRepoOrder: this.state.settings.customRepoOrder
     };
-    this.pruneIgnoredRepos();
+    this.queue.setLimits(this.queueLimits());
+    const pruned = this.pruneIgnoredRepos();
+    const regrouped = input.repoGroups !== undefined;
+    if (regrouped) {
+      const known = new Set(this.state.settings.repoGroups.map((group) => group.id));
+      for (const repo of this.state.repos) {
+        repo.manualGroupIds = repo.manualGroupIds.filter((groupId) => known.has(groupId));
+        this.applyRepoGroups(repo);
+      }
+    }
     await this.persist();
     this.startAutoRefresh();
-    return this.getSnapshot();
+    this.emit({ type: "settingsChanged", settings: { ...this.state.settings } });
+    // Group and sort changes reorder the repo list and watchers restart, so every host needs a
+    // fresh snapshot.
+    return pruned ||
+      regrouped ||
+      input.repoSortMode !== undefined ||
+      input.watchForChanges !== undefined
+      ? this.emitSnapshot()
+      : this.getSnapshot();
   }
 
   async scanConfiguredRoots(): Promise<DashboardSnapshot> {
@@ -359,7 +742,9 @@ export class RepoService {
       });
     }
 
+    this.syncWatchers();
     await this.persist();
+    this.emitSnapshot();
     return await this.refreshAll();
   }
 
@@ -373,6 +758,35 @@ export class RepoService {
     return this.getSnapshot();
   }
 
+  async fetchAll(): Promise<DashboardSnapshot> {
+    if (!this.fetchPromise) {
+      this.fetchPromise = this.refreshRepos(
+        this.state.repos,
+        "Fetch",
+        "interactive",
+        (repo, signal) => this.fetchRepoDirect(repo, signal)
+      ).finally(() => {
+        this.fetchPromise = null;
+      });
+    }
+    await this.fetchPromise;
+    return this.getSnapshot();
+  }
+
+  async refreshRepo(repoId: string): Promise<DashboardSnapshot> {
+    await this.refreshRepos([this.getRepo(repoId)], "Refresh", "interactive", (repo, signal) =>
+      this.refreshLocalDirect(repo, signal)
+    );
+    return this.getSnapshot();
+  }
+
+  async fetchRepo(repoId: string): Promise<DashboardSnapshot> {
+    await this.refreshRepos([this.getRepo(repoId)], "Fetch", "interactive", (repo, signal) =>
+      this.fetchRepoDirect(repo, signal)
+    );
+    return this.getSnapshot();
+  }
+
   async stageFile(repoId: string, filePath: string): Promise<RepoActionResult> {
     return await this.runGitAction(
       repoId,
@@ -382,13 +796,517 @@ export class RepoService {
   }
 
   async unstageFile(repoId: string, filePath: string): Promise<RepoActionResult> {
+    // Unstaging only the new path of a rename would leave the deletion of the old path staged.
+    const originalPath = this.getRepo(repoId).status?.changedFiles.find(
+      (file) => file.path === filePath
+    )?.originalPath;
     return await this.runGitAction(
       repoId,
       `Unstage ${filePath}`,
-      ["restore", "--staged", "--", filePath]
+      ["restore", "--staged", "--", filePath, ...(originalPath ? [originalPath] : [])]
+    );
+  }
+
+  async getFileDiff(
+    repoId: string,
+    filePath: string,
+    options: FileDiffOptions
+  ): Promise<FileDiff> {
+    const repo = this.getRepo(repoId);
+    const file = repo.status?.changedFiles.find((item) => item.path === filePath);
+    const emptyDiff: FileDiff = {
+      path: filePath,
+      originalPath: null,
+      status: "modified",
+      isBinary: false,
+      newFileMode: null,
+      hunks: []
+    };
+
+    if (file?.isUntracked) {
+      // `diff --no-index` exits 1 whenever the files differ, which is always the case here.
+      const transcript = await this.runGitRead(
+        repo,
+        [...DIFF_ARGS, "--no-index", "--", "/dev/null", filePath],
+        [0, 1]
+      );
+      const [diff] = parseDiffOutput(transcript.stdout);
+      return { ...(diff ?? emptyDiff), path: filePath, originalPath: null, status: "untracked" };
+    }
+
+    const paths =
+      options.staged && file?.originalPath ? [file.originalPath, filePath] : [filePath];
+    const transcript = await this.runGitRead(repo, [
+      ...DIFF_ARGS,
+      ...(options.staged ? ["--cached"] : []),
+      "-M",
+      "--",
+      ...paths
+    ]);
+    const diffs = parseDiffOutput(transcript.stdout);
+    return diffs.find((diff) => diff.path === filePath) ?? diffs[0] ?? emptyDiff;
+  }
+
+  async stageSelection(repoId: string, selection: DiffSelection): Promise<RepoActionResult> {
+    return await this.applySelection(repoId, selection, false);
+  }
+
+  async unstageSelection(repoId: string, selection: DiffSelection): Promise<RepoActionResult> {
+    return await this.applySelection(repoId, selection, true);
+  }
+
+  async discardFile(repoId: string, filePath: string): Promise<RepoActionResult> {
+    const file = this.getRepo(repoId).status?.changedFiles.find((item) => item.path === filePath);
+    const label = `Changes to ${filePath}`;
+    if (file?.isUntracked) {
+      return await this.runRepoAction(
+        repoId,
+        `Discard ${filePath}`,
+        async (repo, signal) => await this.stashUntrackedFiles(repo, signal, label, [filePath]),
+        60_000
+      );
+    }
+
+    // Restoring only the new path of a rename would leave the old path deleted.
+    const paths = file?.originalPath ? [filePath, file.originalPath] : [filePath];
+    return await this.runRepoAction(
+      repoId,
+      `Discard ${filePath}`,
+      async (repo, signal) => {
+        await this.captureTrackedChanges(repo, signal, label, paths);
+        const transcript = await this.runRepoGitCommand(
+          repo,
+          [
+            "--literal-pathspecs",
+            "restore",
+            "--source=HEAD",
+            "--staged",
+            "--worktree",
+            "--",
+            ...paths
+          ],
+          { signal, timeoutMs: 30_000 }
+        );
+        this.pushTranscript(repo, transcript);
+        return transcript;
+      },
+      60_000
+    );
+  }
+
+  async discardAll(repoId: string): Promise<RepoActionResult> {
+    return await this.runRepoAction(
+      repoId,
+      "Discard all changes",
+      async (repo, signal) => {
+        await this.captureTrackedChanges(repo, signal, "All tracked changes", []);
+        const transcript = await this.runRepoGitCommand(repo, ["reset", "--hard", "--quiet"], {
+          signal,
+          timeoutMs: 30_000
+        });
+        this.pushTranscript(repo, transcript);
+        return transcript;
+      },
+      60_000
+    );
+  }
+
+  async cleanUntracked(repoId: string): Promise<RepoActionResult> {
+    return await this.runRepoAction(
+      repoId,
+      "Clean untracked files",
+      async (repo, signal) => {
+        const statusTranscript = await this.runRepoGitCommand(repo, STATUS_ARGS, {
+          signal,
+          timeoutMs: 20_000
+        });
+        const untracked = parseStatusOutput(statusTranscript.stdout)
+          .changedFiles.filter((file) => file.isUntracked)
+          .map((file) => file.path);
+        if (untracked.length === 0) {
+          throw new Error("No untracked files to clean.");
+        }
+        const label = untracked.length === 1 ? untracked[0] : `${untracked.length} untracked files`;
+        return await this.stashUntrackedFiles(repo, signal, label, untracked);
+      },
+      60_000
+    );
+  }
+
+  async restoreRecoveryPoint(
+    repoId: string,
+    recoveryPointId: string
+  ): Promise<RepoActionResult> {
+    return await this.runRepoAction(
+      repoId,
+      "Restore discarded changes",
+      async (repo, signal) => {
+        const point = repo.recoveryPoints.find((item) => item.id === recoveryPointId);
+        if (!point) {
+          throw new Error("Recovery point not found. It may have expired.");
+        }
+        let transcript: CommandTranscript | undefined;
+        if (point.kind === "untracked" || point.paths.length === 0) {
+          // `--index` brings back what was staged as staged; untracked snapshots have no index.
+          transcript = await this.runRepoGitCommand(
+            repo,
+            ["stash", "apply", ...(point.kind === "tracked" ? ["--index"] : []), point.commit],
+            { signal, timeoutMs: 60_000 }
+          );
+          this.pushTranscript(repo, transcript);
+        } else {
+          transcript = await this.applyRecoveredPaths(repo, point, signal);
+        }
+        await this.deleteRecoveryPoint(repo, point, signal);
+        return transcript;
+      },
+      60_000
     );
   }
 
+  async getStashFiles(repoId: string, stashOid: string): Promise<StashFileStat[]> {
+    const repo = this.getRepo(repoId);
+    const stash = repo.status?.stashes.find((item) => item.oid === stashOid);
+    if (!stash) {
+      throw new Error("Stash not found. Refresh and try again.");
+    }
+    const tracked = await this.runGitRead(repo, [
+      "diff",
+      "--numstat",
+      "-z",
+      "--no-renames",
+      `${stash.oid}^1`,
+      stash.oid
+    ]);
+    const files = parseNumstat(tracked.stdout, false);
+    if (stash.hasUntracked) {
+      // The untracked tree is a root commit, so showing it lists every file as added.
+      const untracked = await this.runGitRead(repo, [
+        "show",
+        "--format=",
+        "--numstat",
+        "-z",
+        "--no-renames",
+        `${stash.oid}^3`
+      ]);
+      files.push(...parseNumstat(untracked.stdout, true));
+    }
+    return files;
+  }
+
+  async createStash(repoId: string, input: CreateStashInput): Promise<RepoActionResult> {
+    const message = input.message.trim();
+    return await this.runGitAction(
+      repoId,
+      "Stash changes",
+      [
+        "stash",
+        "push",
+        ...(input.includeUntracked ? ["--include-untracked"] : []),
+        ...(message ? ["-m", message] : [])
+      ],
+      60_000
+    );
+  }
+
+  async applyStash(repoId: string, stashOid: string): Promise<RepoActionResult> {
+    return await this.runStashAction(repoId, stashOid, "Apply stash", "apply");
+  }
+
+  async popStash(repoId: string, stashOid: string): Promise<RepoActionResult> {
+    return await this.runStashAction(repoId, stashOid, "Pop stash", "pop");
+  }
+
+  async dropStash(repoId: string, stashOid: string): Promise<RepoActionResult> {
+    return await this.runStashAction(repoId, stashOid, "Drop stash", "drop");
+  }
+
+  async listBranches(repoId: string): Promise<BranchInfo[]> {
+    const repo = this.getRepo(repoId);
+    const transcript = await this.runGitRead(repo, BRANCH_LIST_ARGS);
+    let mergedRefs = new Set<string>();
+    try {
+      const merged = await this.runGitRead(repo, [
+        "for-each-ref",
+        "--merged=HEAD",
+        "--format=%(refname)",
+        "refs/heads"
+      ]);
+      mergedRefs = new Set(merged.stdout.split("\n").filter(Boolean));
+    } catch {
+      // Without a commit on HEAD nothing can be merged into it.
+    }
+    return parseBranchList(transcript.stdout).map((branch) =>
+      branch.kind === "local" ? { ...branch, isMerged: mergedRefs.has(branch.fullRef) } : branch
+    );
+  }
+
+  async checkoutBranch(repoId: string, input: CheckoutBranchInput): Promise<RepoActionResult> {
+    const branchName = input.branch.trim();
+    if (!branchName) {
+      return this.invalidRequest("Choose a branch to check out.");
+    }
+    return await this.runRepoAction(
+      repoId,
+      `Checkout ${branchName}`,
+      async (repo, signal) => {
+        const branches = parseBranchList((await this.runGitRead(repo, BRANCH_LIST_ARGS)).stdout);
+        const target = branches.find((branch) => branch.name === branchName);
+        if (!target) {
+          throw new Error(`Branch ${branchName} does not exist.`);
+        }
+        let args = ["switch", branchName];
+        if (target.kind === "remote") {
+          // A remote branch is checked out through the local branch of the same name.
+          const localName = branchName.slice((target.remote ?? "").length + 1);
+          args = branches.some((branch) => branch.kind === "local" && branch.name === localName)
+            ? ["switch", localName]
+            : ["switch", "--track", branchName];
+        }
+        await this.prepareBranchSwitch(repo, signal, input.dirtyStrategy, branchName);
+        return await this.runBranchSwitch(repo, signal, args, branchName);
+      },
+      60_000
+    );
+  }
+
+  async createBranch(repoId: string, input: CreateBranchInput): Promise<RepoActionResult> {
+    const name = input.name.trim();
+    if (!name) {
+      return this.invalidRequest("Branch name is required.");
+    }
+    // Names go into argv where options go, so one that looks like an option is refused.
+    if (name.startsWith("-")) {
+      return this.invalidRequest(`Invalid branch name: ${name}`);
+    }
+    const startPoint = input.startPoint?.trim() ? [input.startPoint.trim()] : [];
+    if (startPoint[0]?.startsWith("-")) {
+      return this.invalidRequest(`Invalid start point: ${startPoint[0]}`);
+    }
+    if (!input.checkout) {
+      return await this.runGitAction(repoId, `Create ${name}`, ["branch", name, ...startPoint]);
+    }
+    return await this.runRepoAction(
+      repoId,
+      `Create ${name}`,
+      async (repo, signal) => {
+        await this.prepareBranchSwitch(repo, signal, input.dirtyStrategy, name);
+        const args = ["switch", "-c", name, ...startPoint];
+        return await this.runBranchSwitch(repo, signal, args, name);
+      },
+      60_000
+    );
+  }
+
+  async renameBranch(repoId: string, branch: string, newName: string): Promise<RepoActionResult> {
+    const trimmed = newName.trim();
+    if (!trimmed) {
+      return this.invalidRequest("New branch name is required.");
+    }
+    const optionLike = [branch, trimmed].find((name) => name.startsWith("-"));
+    if (optionLike) {
+      return this.invalidRequest(`Invalid branch name: ${optionLike}`);
+    }
+    return await this.runGitAction(repoId, `Rename ${branch}`, ["branch", "-m", branch, trimmed]);
+  }
+
+  async deleteBranch(repoId: string, branch: string, force: boolean): Promise<RepoActionResult> {
+    if (branch.startsWith("-")) {
+      return this.invalidRequest(`Invalid branch name: ${branch}`);
+    }
+    return await this.runRepoAction(repoId, `Delete ${branch}`, async (repo, signal) => {
+      try {
+        const transcript = await this.runRepoGitCommand(
+          repo,
+          ["branch", force ? "-D" : "-d", branch],
+          { signal, timeoutMs: 20_000 }
+        );
+        this.pushTranscript(repo, transcript);
+        return transcript;
+      } catch (error) {
+        if (
+          !force &&
+          error instanceof CommandFailedError &&
+          error.transcript.stderr.includes("not fully merged")
+        ) {
+          this.pushTranscript(repo, error.transcript);
+          throw new Error(
+            `${branch} has commits that are not merged. Delete it anyway to discard them.`
+          );
+        }
+        throw error;
+      }
+    });
+  }
+
+  async addRemote(repoId: string, name: string, url: string): Promise<RepoActionResult> {
+    const trimmedName = name.trim();
+    const trimmedUrl = url.trim();
+    if (!trimmedName || !trimmedUrl) {
+      return this.invalidRequest("Remote name and URL are required.");
+    }
+    // Fetch and push take the remote name where options go, so it must not look like one.
+    if (trimmedName.startsWith("-")) {
+      return this.invalidRequest(`Invalid remote name: ${trimmedName}`);
+    }
+    return await this.runGitAction(repoId, `Add remote ${trimmedName}`, [
+      "remote",
+      "add",
+      "--",
+      trimmedName,
+      trimmedUrl
+    ]);
+  }
+
+  async removeRemote(repoId: string, name: string): Promise<RepoActionResult> {
+    return await this.runGitAction(repoId, `Remove remote ${name}`, [
+      "remote",
+      "remove",
+      "--",
+      name
+    ]);
+  }
+
+  async renameRemote(repoId: string, name: string, newName: string): Promise<RepoActionResult> {
+    const trimmed = newName.trim();
+    if (!trimmed) {
+      return this.invalidRequest("New remote name is required.");
+    }
+    if (trimmed.startsWith("-")) {
+      return this.invalidRequest(`Invalid remote name: ${trimmed}`);
+    }
+    // Git moves the remote-tracking branches and upstream settings along with the name.
+    return await this.runGitAction(repoId, `Rename remote ${name}`, [
+      "remote",
+      "rename",
+      "--",
+      name,
+      trimmed
+    ]);
+  }
+
+  async setRemoteUrl(
+    repoId: string,
+    name: string,
+    url: string,
+    push: boolean
+  ): Promise<RepoActionResult> {
+    const trimmed = url.trim();
+    if (!trimmed) {
+      return this.invalidRequest("Remote URL is required.");
+    }
+    return await this.runGitAction(repoId, `Set ${push ? "push " : ""}URL of ${name}`, [
+      "remote",
+      "set-url",
+      ...(push ? ["--push"] : []),
+      "--",
+      name,
+      trimmed
+    ]);
+  }
+
+  async testRemote(repoId: string, name: string): Promise<RepoActionResult> {
+    const repo = this.getRepo(repoId);
+    if (!repo.remotes.some((remote) => remote.name === name)) {
+      return this.invalidRequest(`${repo.displayName} has no remote named ${name}.`);
+    }
+    try {
+      const transcript = await runGitCommand(
+        repo.environment,
+        repo.path,
+        ["ls-remote", "--", name, "HEAD"],
+        { timeoutMs: REMOTE_TEST_TIMEOUT_MS }
+      );
+      this.pushTranscript(repo, transcript);
+      this.emitRepo(repo);
+      return {
+        ok: true,
+        message: `${name} is reachable.`,
+        transcript,
+        snapshot: this.getSnapshot()
+      };
+    } catch (error) {
+      if (!(error instanceof CommandFailedError)) {
+        throw error;
+      }
+      this.pushTranscript(repo, error.transcript);
+      this.emitRepo(repo);
+      const reason = error.transcript.timedOut
+        ? `no answer within ${REMOTE_TEST_TIMEOUT_MS / 1_000} seconds`
+        : error.transcript.stderr.trim().split(/\r?\n/)[0].replace(/^fatal: /, "") ||
+          "ls-remote failed";
+      return {
+        ok: false,
+        message: `${name} is not reachable: ${reason}`,
+        transcript: error.transcript,
+        snapshot: this.getSnapshot()
+      };
+    }
+  }
+
+  async getLog(repoId: string, query: LogQuery): Promise<LogPage> {
+    const repo = this.getRepo(repoId);
+    const requested = Math.floor(Number(query.limit));
+    const limit = requested >= 1 ? Math.min(requested, LOG_PAGE_LIMIT) : LOG_PAGE_SIZE;
+    const path = query.path?.trim() ?? "";
+    let tip: string | null = null;
+    let skip = 0;
+
+    if (query.cursor) {
+      const cursor = query.cursor.match(LOG_CURSOR);
+      if (!cursor) {
+        throw new Error("Invalid history cursor.");
+      }
+      tip = cursor[1];
+      skip = Number.parseInt(cursor[2], 10);
+    } else {
+      const ref = query.ref?.trim() || "HEAD";
+      if (ref.startsWith("-")) {
+        throw new Error(`Invalid ref: ${ref}`);
+      }
+      tip = await this.resolveRef(repo, `${ref}^{commit}`);
+      if (!tip) {
+        if (!query.ref) {
+          // A repository without commits has no history yet.
+          return { commits: [], nextCursor: null };
+        }
+        throw new Error(`${ref} is not a commit.`);
+      }
+    }
+
+    // One extra commit tells whether another page exists. Path-limited history needs
+    // `--parents` so parent oids are rewritten to the previous commit touching the path.
+    const transcript = await this.runGitRead(repo, [
+      ...LOG_ARGS,
+      `--max-count=${limit + 1}`,
+      `--skip=${skip}`,
+      ...(path ? ["--parents"] : []),
+      tip,
+      "--",
+      ...(path ? [path] : [])
+    ]);
+    const commits = parseLog(transcript.stdout);
+    const hasMore = commits.length > limit;
+    return {
+      commits: commits.slice(0, limit),
+      nextCursor: hasMore ? `${tip}:${skip + limit}` : null
+    };
+  }
+
+  async getCommitDetails(repoId: string, oid: string): Promise<CommitDetails> {
+    if (!COMMIT_OID.test(oid)) {
+      throw new Error(`Invalid commit: ${oid}`);
+    }
+    const repo = this.getRepo(repoId);
+    const transcript = await this.runGitRead(repo, [...COMMIT_SHOW_ARGS, oid, "--"]);
+    const separator = transcript.stdout.indexOf("\0");
+    return {
+      oid,
+      body: separator === -1 ? "" : transcript.stdout.slice(0, separator).trim(),
+      files: parseDiffOutput(transcript.stdout.slice(separator + 1))
+    };
+  }
+
   async commitRepo(repoId: string, message: string): Promise<RepoActionResult> {
     const trimmed = message.trim();
     if (!trimmed) {
@@ -408,7 +1326,7 @@ export class RepoService {
         async (signal) => {
           const statusTranscript = await this.runRepoGitCommand(
             repo,
-            ["status", "--porcelain=v1", "--branch", "-uall"],
+            STATUS_ARGS,
             { signal, timeoutMs: 20_000 }
           );
           transcript = statusTranscript;
@@ -429,13 +1347,15 @@ export class RepoService {
             { signal, timeoutMs: 45_000 }
           );
           this.pushTranscript(repo, transcript);
-          await this.refreshRepoDirect(repo, signal);
+          await this.refreshLocalDirect(repo, signal);
           repo.lastError = null;
           repo.lastErrorTranscript = null;
           repo.updatedAt = nowIso();
+          repo.lastActionAt = repo.updatedAt;
+          this.emitRepo(repo);
           await this.persist();
         },
-        60_000
+        { timeoutMs: 60_000, environmentKey: environmentKey(repo.environment) }
       );
       return {
         ok: true,
@@ -448,46 +1368,272 @@ export class RepoService {
     }
   }
 
-  async pushRepo(repoId: string): Promise<RepoActionResult> {
-    return await this.runGitAction(repoId, "Push", ["push", "--porcelain"], 90_000);
+  async amendCommit(repoId: string, input: AmendCommitInput): Promise<RepoActionResult> {
+    const trimmed = input.message.trim();
+    if (!trimmed) {
+      return this.invalidRequest("Commit message is required.");
+    }
+    const label = input.messageOnly ? "Amend commit message" : "Amend commit";
+    return await this.runRepoAction(repoId, label, async (repo, signal) => {
+      const statusTranscript = await this.runRepoGitCommand(repo, STATUS_ARGS, {
+        signal,
+        timeoutMs: 20_000
+      });
+      const parsed = parseStatusOutput(statusTranscript.stdout);
+      if (!parsed.headOid) {
+        throw new Error("There is no commit to amend yet.");
+      }
+      // With nothing ahead of the upstream, HEAD is already on the remote.
+      if (parsed.hasUpstream && parsed.ahead === 0 && !input.force) {
+        throw new Error(
+          `The last commit is already pushed to ${parsed.upstream ?? "its upstream"}. ` +
+            "Amending it rewrites published history and needs a force push."
+        );
+      }
+      // `--only` without paths amends the commit as it is, so the index is not folded in.
+      const transcript = await this.runRepoGitCommand(
+        repo,
+        ["commit", "--amend", ...(input.messageOnly ? ["--only"] : []), "-m", trimmed],
+        { signal, timeoutMs: 45_000 }
+      );
+      this.pushTranscript(repo, transcript);
+      return transcript;
+    });
+  }
+
+  async runMergeRebaseAction(
+    repoId: string,
+    action: MergeRebaseAction
+  ): Promise<RepoActionResult> {
+    const label = action[0].toUpperCase() + action.slice(1);
+    return await this.runRepoAction(
+      repoId,
+      label,
+      async (repo, signal) => {
+        const { mergeInProgress, rebaseInProgress } =
+          await this.detectRepositoryOperationState(repo, signal);
+        if (!mergeInProgress && !rebaseInProgress) {
+          throw new Error("No merge or rebase is in progress.");
+        }
+        const kind = rebaseInProgress ? "rebase" : "merge";
+        if (kind === "merge" && action === "skip") {
+          throw new Error("A merge cannot be skipped. Abort it instead.");
+        }
+        if (action === "continue") {
+          const statusTranscript = await this.runRepoGitCommand(repo, STATUS_ARGS, {
+            signal,
+            timeoutMs: 20_000
+          });
+          const { conflictedCount } = parseStatusOutput(statusTranscript.stdout);
+          if (conflictedCount > 0) {
+            throw new Error(
+              `Resolve ${conflictedCount} conflicted file${conflictedCount === 1 ? "" : "s"} ` +
+                `before continuing the ${kind}.`
+            );
+          }
+        }
+        // `GIT_EDITOR=true` accepts the prepared commit message instead of opening an editor.
+        // It has to be the environment variable: git prefers it over `core.editor`.
+        try {
+          const transcript = await this.runRepoGitCommand(repo, [kind, `--${action}`], {
+            signal,
+            timeoutMs: 90_000,
+            env: { GIT_EDITOR: "true" }
+          });
+          this.pushTranscript(repo, transcript);
+          return transcript;
+        } catch (error) {
+          throw await this.conflictStopError(repo, signal, error);
+        }
+      },
+      90_000
+    );
+  }
+
+  async getConflictVersions(repoId: string, filePath: string): Promise<ConflictVersions> {
+    const repo = this.getRepo(repoId);
+    const stages = await this.readConflictStages(repo, filePath);
+    const versions: ConflictVersions = {
+      path: filePath,
+      base: null,
+      ours: null,
+      theirs: null,
+      isBinary: false
+    };
+    for (const [stage, key] of [
+      [1, "base"],
+      [2, "ours"],
+      [3, "theirs"]
+    ] as const) {
+      const blob = stages.get(stage);
+      if (!blob) {
+        continue;
+      }
+      const content = (await this.runGitRead(repo, ["cat-file", "blob", blob])).stdout;
+      if (content.includes("\0")) {
+        versions.isBinary = true;
+        continue;
+      }
+      versions[key] = content;
+    }
+    return versions;
+  }
+
+  async resolveConflict(
+    repoId: string,
+    filePath: string,
+    resolution: ConflictResolution
+  ): Promise<RepoActionResult> {
+    const actionName =
+      resolution === "resolved" ? `Resolve ${filePath}` : `Take ${resolution} for ${filePath}`;
+    return await this.runRepoAction(repoId, actionName, async (repo, signal) => {
+      const stages = await this.readConflictStages(repo, filePath);
+      if (stages.size === 0) {
+        throw new Error(`${filePath} is not conflicted.`);
+      }
+      let args = ["--literal-pathspecs", "add", "-A", "--", filePath];
+      if (resolution !== "resolved") {
+        if (stages.has(resolution === "ours" ? 2 : 3)) {
+          const checkout = await this.runRepoGitCommand(
+            repo,
+            ["--literal-pathspecs", "checkout", `--${resolution}`, "--", filePath],
+            { signal, timeoutMs: 20_000 }
+          );
+          this.pushTranscript(repo, checkout);
+        } else {
+          // The chosen side deleted the file.
+          args = ["--literal-pathspecs", "rm", "--quiet", "--", filePath];
+        }
+      }
+      const transcript = await this.runRepoGitCommand(repo, args, {
+        signal,
+        timeoutMs: 20_000
+      });
+      this.pushTranscript(repo, transcript);
+      return transcript;
+    });
+  }
+
+  async pushRepo(repoId: string, groupId?: string): Promise<RepoActionResult> {
+    let pushResults: PushRefResult[] = [];
+    const result = await this.runRepoAction(
+      repoId,
+      "Push",
+      async (repo, signal) => {
+        const pushed = await this.runPushCommand(repo, PUSH_ARGS, signal);
+        pushResults = pushed.pushResults;
+        return pushed.transcript;
+      },
+      90_000,
+      groupId
+    );
+    return withPushResults(result, pushResults);
   }
 
-  async syncRepo(repoId: string): Promise<RepoActionResult> {
+  async publishBranch(repoId: string, remote: string): Promise<RepoActionResult> {
+    const repo = this.getRepo(repoId);
+    if (!repo.remotes.some((item) => item.name === remote)) {
+      return this.invalidRequest(`${repo.displayName} has no remote named ${remote}.`);
+    }
+    let pushResults: PushRefResult[] = [];
+    const result = await this.runRepoAction(
+      repoId,
+      `Publish to ${remote}`,
+      async (repo, signal) => {
+        const statusTranscript = await this.runRepoGitCommand(repo, STATUS_ARGS, {
+          signal,
+          timeoutMs: 20_000
+        });
+        const parsed = parseStatusOutput(statusTranscript.stdout);
+        if (parsed.isDetached) {
+          throw new Error("HEAD is detached. Check out a branch to publish it.");
+        }
+        if (!parsed.headOid) {
+          throw new Error(`${parsed.branch} has no commits to publish yet.`);
+        }
+        // The local refresh afterwards picks up the new upstream and its ahead/behind.
+        const pushed = await this.runPushCommand(
+          repo,
+          [...PUSH_ARGS, "--set-upstream", "--", remote, parsed.branch],
+          signal
+        );
+        pushResults = pushed.pushResults;
+        return pushed.transcript;
+      },
+      90_000
+    );
+    return withPushResults(result, pushResults);
+  }
+
+  async syncRepo(repoId: string, groupId?: string): Promise<RepoActionResult> {
     const repo = this.getRepo(repoId);
     try {
       let transcript: CommandTranscript | undefined;
+      let pushResults: PushRefResult[] = [];
       await this.queue.enqueue(
         repo.id,
         "Sync",
         async (signal) => {
-          const steps: Array<{ args: string[]; timeoutMs: number }> = [
-            { args: ["fetch", "--all", "--prune"], timeoutMs: 60_000 },
-            { args: ["pull", "--rebase"], timeoutMs: 90_000 },
-            { args: ["push", "--porcelain"], timeoutMs: 90_000 }
-          ];
-
-          for (const step of steps) {
-            transcript = await this.runRepoGitCommand(repo, step.args, {
-              signal,
-              timeoutMs: step.timeoutMs
-            });
+          const strategy = repo.syncStrategy ?? this.state.settings.syncStrategy;
+          const note = describeSyncStrategy(strategy, repo.syncStrategy !== null);
+          const runStep = async (args: string[], timeoutMs: number) => {
+            try {
+              transcript = await this.runRepoGitCommand(repo, args, { signal, timeoutMs });
+            } catch (error) {
+              if (error instanceof CommandFailedError) {
+                error.transcript.note = note;
+                if (error.transcript.stderr.includes(NO_TRACKING_INFORMATION)) {
+                  this.pushTranscript(repo, error.transcript);
+                  throw noUpstreamError(repo.status?.branch ?? "The current branch");
+                }
+              }
+              throw await this.conflictStopError(repo, signal, error);
+            }
+            transcript.note = note;
             this.pushTranscript(repo, transcript);
+          };
+
+          await runStep(["fetch", "--all", "--prune"], 60_000);
+          this.pendingFetches.set(repo.id, { lastFetchedAt: nowIso(), lastFetchError: null });
+          if (strategy.mode !== "fetch-only") {
+            if (strategy.mode === "ff-only") {
+              await this.assertFastForward(repo);
+            }
+            const pullMode = {
+              rebase: "--rebase",
+              merge: "--no-rebase",
+              "ff-only": "--ff-only"
+            }[strategy.mode];
+            await runStep(
+              ["pull", pullMode, strategy.autostash ? "--autostash" : "--no-autostash"],
+              90_000
+            );
+            if (strategy.push) {
+              const pushed = await this.runPushCommand(repo, PUSH_ARGS, signal, note);
+              transcript = pushed.transcript;
+              pushResults = pushed.pushResults;
+            }
           }
 
-          await this.refreshRepoDirect(repo, signal);
+          await this.refreshLocalDirect(repo, signal);
           repo.lastError = null;
           repo.lastErrorTranscript = null;
           repo.updatedAt = nowIso();
+          repo.lastActionAt = repo.updatedAt;
+          this.emitRepo(repo);
           await this.persist();
         },
-        255_000
+        { timeoutMs: 255_000, environmentKey: environmentKey(repo.environment), groupId }
+      );
+      return withPushResults(
+        {
+          ok: true,
+          message: "Sync completed.",
+          transcript,
+          snapshot: this.getSnapshot()
+        },
+        pushResults
       );
-      return {
-        ok: true,
-        message: "Sync completed.",
-        transcript,
-        snapshot: this.getSnapshot()
-      };
     } catch (error) {
       return await this.handleActionFailure(repo, "Sync failed.", error);
     }
@@ -496,8 +1642,9 @@ export class RepoService {
   async openInEditor(repoId: string): Promise<RepoActionResult> {
     const repo = this.getRepo(repoId);
     try {
-      const windowsTemplate = this.state.settings.editorCommandWindows.trim();
-      const wslTemplate = this.state.settings.editorCommandWsl.trim();
+      const override = repo.editorCommand?.trim() ?? "";
+      const windowsTemplate = override || this.state.settings.editorCommandWindows.trim();
+      const wslTemplate = override || this.state.settings.editorCommandWsl.trim();
       const codeExecutable = await this.findVsCodeExecutable();
       if (repo.environment.kind === "windows") {
         if (windowsTemplate === "code <path>") {
@@ -513,10 +1660,7 @@ export class RepoService {
             }
           }
         } else {
-          const rendered = this.renderEditorCommand(
-            this.state.settings.editorCommandWindows,
-            repo.path
-          );
+          const rendered = this.renderEditorCommand(windowsTemplate, repo.path);
           await this.launchShell(rendered, repo.path);
         }
       } else {
@@ -560,11 +1704,7 @@ exit 127
             throw error;
           }
         } else {
-          const command = this.renderEditorCommand(
-            this.state.settings.editorCommandWsl,
-            repo.path,
-            true
-          );
+          const command = this.renderEditorCommand(wslTemplate, repo.path, true);
           await this.launchDetached("wsl.exe", [
             "-d",
             repo.environment.distro,
@@ -641,32 +1781,408 @@ exit 127
     return this.getSnapshot();
   }
 
+  /** Runs one of the bulk actions on the chosen repos, each listed once. */
+  async runBulkAction(input: BulkActionInput): Promise<BulkActionResult> {
+    if (!BULK_ACTIONS.includes(input.action)) {
+      throw new Error(`Unknown bulk action: ${String(input.action)}`);
+    }
+    const repoIds = [...new Set(Array.isArray(input.repoIds) ? input.repoIds : [])];
+    if (repoIds.length === 0) {
+      throw new Error("Choose at least one repository.");
+    }
+    return await this.runBulkGroup(input.groupId, input.action, repoIds);
+  }
+
+  /** Fast-forwards every repo that is clean and only behind; the rest are reported as skipped. */
+  async fastForwardAll(groupId: string): Promise<BulkActionResult> {
+    return await this.runBulkGroup(
+      groupId,
+      "fastForward",
+      this.state.repos.map((repo) => repo.id)
+    );
+  }
+
+  async cancelBulkAction(groupId: string): Promise<DashboardSnapshot> {
+    const group = this.bulkGroups.get(groupId);
+    if (group) {
+      group.cancelled = true;
+      this.queue.cancelGroup(groupId);
+    }
+    return this.getSnapshot();
+  }
+
   private async refreshAllInternal(): Promise<void> {
     await this.pruneMissingRepos();
+    this.syncWatchers();
+    await this.refreshRepos(this.state.repos, "Refresh", "interactive", (repo, signal) =>
+      this.refreshLocalDirect(repo, signal)
+    );
+  }
 
+  /** Watches every auto-refreshed repo while the dashboard setting is on. */
+  private syncWatchers(): void {
+    const watched = this.state.settings.watchForChanges
+      ? this.state.repos.filter((repo) => repo.autoRefresh)
+      : [];
+    this.watcher.sync(watched);
     for (const repo of this.state.repos) {
-      try {
-        await this.queue.enqueue(
+      repo.watching = this.watcher.isWatching(repo.id);
+      repo.watchError = repo.watching || !watched.includes(repo) ? null : repo.watchError;
+    }
+  }
+
+  /** Runs a local refresh for a watched repo whose files changed; fetches keep their timer. */
+  private async refreshChangedRepo(repoId: string, changedPaths: string[] | null): Promise<void> {
+    const repo = this.state.repos.find((item) => item.id === repoId);
+    if (!repo || this.watcherRefreshesQueued.has(repo.id)) {
+      return;
+    }
+    this.watcherRefreshesQueued.add(repo.id);
+    if (changedPaths && (await this.areAllIgnored(repo, changedPaths))) {
+      this.watcherRefreshesQueued.delete(repo.id);
+      return;
+    }
+    let started = false;
+    try {
+      await this.queue.enqueue(
+        repo.id,
+        "Refresh",
+        async (signal) => {
+          started = true;
+          this.watcherRefreshesQueued.delete(repo.id);
+          await this.refreshLocalDirect(repo, signal);
+        },
+        {
+          timeoutMs: 60_000,
+          environmentKey: environmentKey(repo.environment),
+          priority: "background"
+        }
+      );
+      await this.persist();
+    } catch {
+      // Failures are captured in repo status and transcripts. A refresh cancelled before it
+      // started must not hold back the next change.
+      if (!started) {
+        this.watcherRefreshesQueued.delete(repo.id);
+      }
+    }
+  }
+
+  /** Whether git ignores every changed path, so the change cannot show up in a refresh. */
+  private async areAllIgnored(repo: RepoRecord, changedPaths: string[]): Promise<boolean> {
+    if (changedPaths.some((changedPath) => changedPath.startsWith(".git/"))) {
+      return false;
+    }
+    try {
+      // Exit code 1 means nothing was ignored.
+      const transcript = await runGitCommand(
+        repo.environment,
+        repo.path,
+        ["check-ignore", "-z", "--stdin"],
+        { input: changedPaths.map((changedPath) => `${changedPath}\0`).join(""), timeoutMs: 10_000 }
+      );
+      const ignored = new Set(transcript.stdout.split("\0"));
+      return changedPaths.every((changedPath) => ignored.has(changedPath));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * One scheduler tick: refreshes the repos whose own interval has run out or whose fetch
+   * interval is due, then fast-forwards just those when the dashboard asks for it.
+   */
+  private async refreshDueRepos(): Promise<void> {
+    const now = Date.now();
+    const due = this.state.repos.filter((repo) => {
+      if (!repo.autoRefresh) {
+        return false;
+      }
+      const refreshedAt = this.refreshedAt.get(repo.id) ?? this.schedulerStartedAt;
+      // A watched repo's timed refresh is only worth it for the fetch that comes with it.
+      const timed =
+        now - refreshedAt >= this.refreshIntervalMs(repo) &&
+        (!repo.watching || (repo.fetchPolicy !== "interval" && this.shouldFetchOnRefresh(repo)));
+      return timed || this.isFetchDue(repo, now);
+    });
+    if (due.length === 0) {
+      return;
+    }
+
+    await this.refreshRepos(due, "Refresh", "background", (repo, signal) =>
+      this.refreshRepoDirect(repo, signal)
+    );
+    if (this.state.settings.fastForwardAfterRefresh) {
+      await this.runBulkGroup(newId("ff"), "fastForward", due.map((repo) => repo.id));
+    }
+  }
+
+  private refreshIntervalMs(repo: RepoRecord): number {
+    const seconds = repo.refreshIntervalSeconds ?? this.state.settings.refreshIntervalSeconds;
+    return Math.max(MIN_REFRESH_INTERVAL_SECONDS, seconds) * 1_000;
+  }
+
+  private isFetchDue(repo: RepoRecord, now: number): boolean {
+    if (repo.fetchPolicy !== "interval") {
+      return false;
+    }
+    // Before this session's first attempt, go by the last fetch that succeeded.
+    const fetchedAt =
+      this.fetchedAt.get(repo.id) ?? Date.parse(repo.status?.lastFetchedAt ?? "");
+    return Number.isNaN(fetchedAt) || now - fetchedAt >= repo.fetchIntervalMinutes * 60_000;
+  }
+
+  private shouldFetchOnRefresh(repo: RepoRecord): boolean {
+    switch (repo.fetchPolicy) {
+      case "always":
+        return true;
+      case "never":
+        return false;
+      case "interval":
+        return this.isFetchDue(repo, Date.now());
+      default:
+        return this.state.settings.fetchOnRefresh;
+    }
+  }
+
+  /** Passes the user asked for run `interactive`; scheduler and watcher passes `background`. */
+  private async refreshRepos(
+    repos: RepoRecord[],
+    name: string,
+    priority: OperationPriority,
+    pass: (repo: RepoRecord, signal: AbortSignal) => Promise<void>
+  ): Promise<void> {
+    // Failures are captured in repo status and transcripts.
+    await Promise.allSettled(
+      repos.map((repo) =>
+        this.queue.enqueue(
           repo.id,
-          "Refresh",
+          name,
           async (signal) => {
-            await this.refreshRepoDirect(repo, signal);
+            await pass(repo, signal);
+          },
+          {
+            timeoutMs: 60_000,
+            environmentKey: environmentKey(repo.environment),
+            priority
+          }
+        )
+      )
+    );
+
+    await this.persist();
+    this.emitSnapshot();
+  }
+
+  /**
+   * Queues one action per repo under a shared group and reports each outcome as it lands,
+   * so a failing or cancelled repo never holds up the rest.
+   */
+  private async runBulkGroup(
+    rawGroupId: string,
+    action: BulkAction,
+    repoIds: string[]
+  ): Promise<BulkActionResult> {
+    const groupId = rawGroupId?.trim() ?? "";
+    if (!groupId) {
+      throw new Error("Bulk action group id is required.");
+    }
+    if (this.bulkGroups.has(groupId)) {
+      throw new Error("That bulk action is already running.");
+    }
+
+    const group = { cancelled: false };
+    this.bulkGroups.set(groupId, group);
+    try {
+      const outcomes = await Promise.all(
+        repoIds.map(async (repoId): Promise<BulkRepoOutcome> => {
+          let outcome: BulkRepoOutcome;
+          try {
+            const status = this.getRepo(repoId).status;
+            const skipReason =
+              action !== "fastForward"
+                ? null
+                : !status || status.inaccessible
+                  ? "Status is not available."
+                  : fastForwardSkipReason(status);
+            if (skipReason) {
+              outcome = { repoId, state: "skipped", message: skipReason };
+            } else {
+              const result = await this.runBulkStep(action, repoId, groupId);
+              outcome =
+                "skipped" in result
+                  ? { repoId, state: "skipped", message: result.skipped }
+                  : {
+                      repoId,
+                      state: result.ok ? "succeeded" : group.cancelled ? "cancelled" : "failed",
+                      message: result.message
+                    };
+            }
+          } catch (error) {
+            outcome = { repoId, state: "failed", message: (error as Error).message };
+          }
+          this.emit({ type: "bulkActionProgress", groupId, outcome });
+          return outcome;
+        })
+      );
+      return {
+        groupId,
+        action,
+        ok: outcomes.every(
+          (outcome) => outcome.state === "succeeded" || outcome.state === "skipped"
+        ),
+        outcomes,
+        snapshot: this.getSnapshot()
+      };
+    } finally {
+      this.bulkGroups.delete(groupId);
+    }
+  }
+
+  private async runBulkStep(
+    action: BulkAction,
+    repoId: string,
+    groupId: string
+  ): Promise<RepoActionResult | { skipped: string }> {
+    switch (action) {
+      case "fetch":
+        return await this.runRepoAction(
+          repoId,
+          "Fetch",
+          async (repo, signal) => await this.runFetchCommand(repo, signal, 60_000),
+          60_000,
+          groupId
+        );
+      case "pull":
+        return await this.runRepoAction(
+          repoId,
+          "Pull",
+          async (repo, signal) => {
+            await this.assertFastForward(repo);
+            const transcript = await this.runRepoGitCommand(repo, ["pull", "--ff-only"], {
+              signal,
+              timeoutMs: 90_000
+            });
+            this.pushTranscript(repo, transcript);
+            this.pendingFetches.set(repo.id, { lastFetchedAt: nowIso(), lastFetchError: null });
+            return transcript;
           },
-          60_000
+          90_000,
+          groupId
         );
-      } catch {
-        // Failures are captured in repo status and transcripts.
+      case "fastForward": {
+        const skip: { reason: string | null } = { reason: null };
+        const result = await this.runRepoAction(
+          repoId,
+          "Fast-forward",
+          async (repo, signal) => {
+            // The repo may have changed since it was picked, so check again inside the queue.
+            const statusTranscript = await this.runRepoGitCommand(repo, STATUS_ARGS, {
+              signal,
+              timeoutMs: 20_000
+            });
+            skip.reason = fastForwardSkipReason({
+              ...parseStatusOutput(statusTranscript.stdout),
+              ...(await this.detectRepositoryOperationState(repo, signal))
+            });
+            if (skip.reason) {
+              return undefined;
+            }
+            const transcript = await this.runRepoGitCommand(
+              repo,
+              ["merge", "--ff-only", "@{upstream}"],
+              { signal, timeoutMs: 45_000 }
+            );
+            this.pushTranscript(repo, transcript);
+            return transcript;
+          },
+          45_000,
+          groupId
+        );
+        return result.ok && skip.reason ? { skipped: skip.reason } : result;
       }
+      case "push":
+        return await this.pushRepo(repoId, groupId);
+      case "sync":
+        return await this.syncRepo(repoId, groupId);
     }
+  }
 
-    await this.persist();
+  /**
+   * Pushes and reads the porcelain output per ref. Rejected refs and a branch without an
+   * upstream fail with what to do next instead of the bare exit code.
+   */
+  private async runPushCommand(
+    repo: RepoRecord,
+    args: string[],
+    signal: AbortSignal,
+    note?: string
+  ): Promise<{ transcript: CommandTranscript; pushResults: PushRefResult[] }> {
+    let transcript: CommandTranscript;
+    try {
+      transcript = await this.runRepoGitCommand(repo, args, { signal, timeoutMs: 90_000 });
+    } catch (error) {
+      if (!(error instanceof CommandFailedError)) {
+        throw error;
+      }
+      if (note) {
+        error.transcript.note = note;
+      }
+      const noUpstream = error.transcript.stderr.match(NO_UPSTREAM);
+      const pushResults = parsePushOutput(error.transcript.stdout, error.transcript.stderr);
+      const rejected = pushResults.filter(isPushRejected);
+      if (!noUpstream && rejected.length === 0) {
+        throw error;
+      }
+      this.pushTranscript(repo, error.transcript);
+      if (noUpstream) {
+        throw noUpstreamError(noUpstream[1]);
+      }
+      throw new ActionDetailsError(
+        `Push failed: ${joinPushResults(rejected)}.`,
+        {
+          pushResults,
+          ...(rejected.some(remoteHasNewCommits) ? { followUp: "sync" as const } : {})
+        }
+      );
+    }
+    if (note) {
+      transcript.note = note;
+    }
+    this.pushTranscript(repo, transcript);
+    return { transcript, pushResults: parsePushOutput(transcript.stdout, transcript.stderr) };
   }
 
   private async runGitAction(
     repoId: string,
     actionName: string,
     args: string[],
-    timeoutMs = 45_000
+    timeoutMs = 45_000,
+    groupId?: string
+  ): Promise<RepoActionResult> {
+    return await this.runRepoAction(
+      repoId,
+      actionName,
+      async (repo, signal) => {
+        const transcript = await this.runRepoGitCommand(repo, args, { signal, timeoutMs });
+        this.pushTranscript(repo, transcript);
+        return transcript;
+      },
+      timeoutMs,
+      groupId
+    );
+  }
+
+  /**
+   * Runs `work` through the queue, then refreshes the repo and clears its last error.
+   * `work` records its own transcripts and returns the one to report back to the caller.
+   */
+  private async runRepoAction(
+    repoId: string,
+    actionName: string,
+    work: (repo: RepoRecord, signal: AbortSignal) => Promise<CommandTranscript | undefined>,
+    timeoutMs = 45_000,
+    groupId?: string
   ): Promise<RepoActionResult> {
     const repo = this.getRepo(repoId);
     try {
@@ -675,20 +2191,20 @@ exit 127
         repo.id,
         actionName,
         async (signal) => {
-          transcript = await this.runRepoGitCommand(repo, args, {
-            signal,
-            timeoutMs
-          });
-          if (transcript) {
-            this.pushTranscript(repo, transcript);
-          }
-          await this.refreshRepoDirect(repo, signal);
+          transcript = await work(repo, signal);
+          await this.refreshLocalDirect(repo, signal);
           repo.lastError = null;
           repo.lastErrorTranscript = null;
           repo.updatedAt = nowIso();
+          repo.lastActionAt = repo.updatedAt;
+          this.emitRepo(repo);
           await this.persist();
         },
-        timeoutMs + 15_000
+        {
+          timeoutMs: timeoutMs + 15_000,
+          environmentKey: environmentKey(repo.environment),
+          groupId
+        }
       );
       return {
         ok: true,
@@ -701,6 +2217,443 @@ exit 127
     }
   }
 
+  private async applySelection(
+    repoId: string,
+    selection: DiffSelection,
+    reverse: boolean
+  ): Promise<RepoActionResult> {
+    const verb = reverse ? "Unstage" : "Stage";
+    const scope = selection.lineIndexes === null ? "hunk" : "lines";
+    return await this.runRepoAction(
+      repoId,
+      `${verb} ${scope} in ${selection.path}`,
+      async (repo, signal) => {
+        // Rebuild from a fresh diff so the patch always matches the current index.
+        const diff = await this.getFileDiff(repo.id, selection.path, { staged: reverse });
+        const patch = buildSelectionPatch(diff, selection, reverse);
+        const transcript = await this.runRepoGitCommand(
+          repo,
+          ["apply", "--cached", ...(reverse ? ["--reverse"] : []), "-"],
+          { signal, timeoutMs: 20_000, input: patch }
+        );
+        this.pushTranscript(repo, transcript);
+        return transcript;
+      },
+      20_000
+    );
+  }
+
+  /** Applies the dirty worktree choice made before switching to `target`. */
+  private async prepareBranchSwitch(
+    repo: RepoRecord,
+    signal: AbortSignal,
+    strategy: DirtyCheckoutStrategy,
+    target: string
+  ): Promise<void> {
+    const statusTranscript = await this.runRepoGitCommand(repo, STATUS_ARGS, {
+      signal,
+      timeoutMs: 20_000
+    });
+    if (!parseStatusOutput(statusTranscript.stdout).isDirty || strategy === "carry") {
+      return;
+    }
+    if (strategy === "abort") {
+      throw new Error(
+        "There are uncommitted changes. Stash them or carry them over to switch branches."
+      );
+    }
+    const transcript = await this.runRepoGitCommand(
+      repo,
+      ["stash", "push", "--include-untracked", "-m", `kachina: before switching to ${target}`],
+      { signal, timeoutMs: 60_000 }
+    );
+    this.pushTranscript(repo, transcript);
+  }
+
+  private async runBranchSwitch(
+    repo: RepoRecord,
+    signal: AbortSignal,
+    args: string[],
+    target: string
+  ): Promise<CommandTranscript> {
+    try {
+      const transcript = await this.runRepoGitCommand(repo, args, { signal, timeoutMs: 60_000 });
+      this.pushTranscript(repo, transcript);
+      return transcript;
+    } catch (error) {
+      if (
+        error instanceof CommandFailedError &&
+        error.transcript.stderr.includes("would be overwritten")
+      ) {
+        this.pushTranscript(repo, error.transcript);
+        throw new Error(
+          `Uncommitted changes conflict with ${target} and cannot be carried over. ` +
+            "Stash them instead."
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * `pop` and `drop` only accept `stash@{n}` references, and positions shift whenever a stash is
+   * added or removed, so the position is looked up from the oid when the operation runs.
+   */
+  private async runStashAction(
+    repoId: string,
+    stashOid: string,
+    actionName: string,
+    subcommand: "apply" | "pop" | "drop"
+  ): Promise<RepoActionResult> {
+    return await this.runRepoAction(
+      repoId,
+      actionName,
+      async (repo, signal) => {
+        const stash = (await this.readStashes(repo, signal)).find(
+          (item) => item.oid === stashOid
+        );
+        if (!stash) {
+          throw new Error("Stash no longer exists. Refresh and try again.");
+        }
+        const transcript = await this.runRepoGitCommand(
+          repo,
+          ["stash", subcommand, `stash@{${stash.index}}`],
+          { signal, timeoutMs: 60_000 }
+        );
+        this.pushTranscript(repo, transcript);
+        return transcript;
+      },
+      60_000
+    );
+  }
+
+  /** Fails with an explanation instead of letting `pull --ff-only` refuse diverged history. */
+  private async assertFastForward(repo: RepoRecord): Promise<void> {
+    const counts = await this.runGitRead(
+      repo,
+      ["rev-list", "--left-right", "--count", "HEAD...@{upstream}"],
+      [0, 128]
+    );
+    if (counts.exitCode !== 0) {
+      // No upstream; let `pull` report it.
+      return;
+    }
+    const [ahead = 0, behind = 0] = counts.stdout
+      .trim()
+      .split(/\s+/)
+      .map((value) => Number.parseInt(value, 10));
+    if (ahead > 0 && behind > 0) {
+      throw new Error(
+        `The branch has diverged from its upstream (${ahead} local and ${behind} upstream ` +
+          "commits), so it cannot be fast-forwarded. Sync with rebase or merge instead."
+      );
+    }
+  }
+
+  /** Maps index stage (1 base, 2 ours, 3 theirs) to blob oid for a conflicted path. */
+  private async readConflictStages(
+    repo: RepoRecord,
+    filePath: string
+  ): Promise<Map<number, string>> {
+    const transcript = await this.runGitRead(repo, [
+      "--literal-pathspecs",
+      "ls-files",
+      "-u",
+      "-z",
+      "--",
+      filePath
+    ]);
+    const stages = new Map<number, string>();
+    for (const record of transcript.stdout.split("\0")) {
+      const tab = record.indexOf("\t");
+      if (tab === -1 || record.slice(tab + 1) !== filePath) {
+        continue;
+      }
+      const [, blob = "", stage = ""] = record.slice(0, tab).split(" ");
+      stages.set(Number.parseInt(stage, 10), blob);
+    }
+    return stages;
+  }
+
+  /**
+   * Refreshes after a merge or rebase step fails so the conflicts it stopped on show up,
+   * and returns an error explaining the stop instead of a bare exit code.
+   */
+  private async conflictStopError(
+    repo: RepoRecord,
+    signal: AbortSignal,
+    error: unknown
+  ): Promise<unknown> {
+    if (error instanceof CommandFailedError) {
+      await this.refreshLocalDirect(repo, signal);
+      const status = repo.status;
+      if (status && status.conflictedCount > 0) {
+        this.pushTranscript(repo, error.transcript);
+        const kind = status.rebaseInProgress ? "rebase" : "merge";
+        return new Error(
+          `The ${kind} stopped on conflicts. Resolve them, then continue or abort the ${kind}.`
+        );
+      }
+    }
+    return error;
+  }
+
+  private async readStashes(repo: RepoRecord, signal: AbortSignal): Promise<StashEntry[]> {
+    // Read-only probes stay out of the transcript history so they cannot crowd out actions.
+    const transcript = await this.runRepoGitCommand(repo, STASH_LIST_ARGS, {
+      signal,
+      timeoutMs: 20_000
+    });
+    return parseStashList(transcript.stdout);
+  }
+
+  private hasStaleStashes(stashes: StashEntry[]): boolean {
+    const staleDays = this.state.settings.staleStashDays;
+    if (staleDays <= 0) {
+      return false;
+    }
+    const cutoff = Date.now() - staleDays * DAY_MS;
+    return stashes.some((stash) => Date.parse(stash.createdAt) < cutoff);
+  }
+
+  private async readBranches(repo: RepoRecord, signal: AbortSignal): Promise<BranchInfo[]> {
+    const transcript = await this.runRepoGitCommand(repo, BRANCH_LIST_ARGS, {
+      signal,
+      timeoutMs: 20_000
+    });
+    return parseBranchList(transcript.stdout);
+  }
+
+  /**
+   * Checks every local branch, not just the checked-out one, for commits that could be
+   * forgotten. Branches without an upstream are only flagged when the repo has remote
+   * branches to compare against.
+   */
+  private async readBranchAlerts(
+    repo: RepoRecord,
+    signal: AbortSignal,
+    branches: BranchInfo[]
+  ): Promise<BranchAlert[]> {
+    const hasRemoteBranches = branches.some((branch) => branch.kind === "remote");
+    const unpublishedTips = hasRemoteBranches
+      ? branches
+          .filter((branch) => branch.kind === "local" && !branch.upstream && !branch.upstreamGone)
+          .map((branch) => branch.oid)
+      : [];
+    let unpublished = new Map<string, number>();
+    if (unpublishedTips.length > 0) {
+      const transcript = await this.runRepoGitCommand(
+        repo,
+        unpublishedCommitsArgs(unpublishedTips),
+        { signal, timeoutMs: 20_000 }
+      );
+      unpublished = countUnpublishedCommits(transcript.stdout, unpublishedTips);
+    }
+
+    const alerts: BranchAlert[] = [];
+    for (const branch of branches) {
+      if (branch.kind !== "local") {
+        continue;
+      }
+      if (branch.upstreamGone) {
+        alerts.push({ branch: branch.name, reason: "upstreamGone", commitCount: 0 });
+      } else if (branch.upstream && branch.ahead > 0) {
+        alerts.push({ branch: branch.name, reason: "ahead", commitCount: branch.ahead });
+      } else if (!branch.upstream) {
+        const commitCount = unpublished.get(branch.oid) ?? 0;
+        if (commitCount > 0) {
+          alerts.push({ branch: branch.name, reason: "unpublished", commitCount });
+        }
+      }
+    }
+    return alerts;
+  }
+
+  private async readRemotes(repo: RepoRecord, signal: AbortSignal): Promise<RepoRemote[]> {
+    const transcript = await this.runRepoGitCommand(repo, REMOTE_LIST_ARGS, {
+      signal,
+      timeoutMs: 10_000
+    });
+    return parseRemoteList(transcript.stdout);
+  }
+
+  private applyRepoGroups(repo: RepoRecord): void {
+    repo.groupIds = this.state.settings.repoGroups
+      .filter(
+        (group) =>
+          repo.manualGroupIds.includes(group.id) ||
+          group.rules.some((rule) => matchesGroupRule(repo, rule))
+      )
+      .map((group) => group.id);
+  }
+
+  /** Snapshots the index and tracked working tree changes without touching either. */
+  private async captureTrackedChanges(
+    repo: RepoRecord,
+    signal: AbortSignal,
+    label: string,
+    paths: string[]
+  ): Promise<void> {
+    const transcript = await this.runRepoGitCommand(
+      repo,
+      ["stash", "create", `kachina: discard ${label}`],
+      { signal, timeoutMs: 60_000 }
+    );
+    this.pushTranscript(repo, transcript);
+    const commit = transcript.stdout.trim();
+    if (!commit) {
+      throw new Error("Nothing to discard.");
+    }
+    await this.saveRecoveryPoint(repo, signal, { label, commit, paths, kind: "tracked" });
+  }
+
+  /**
+   * `git stash create` cannot capture untracked files, so they are stashed for real, which also
+   * removes them. The new entry is then moved from the user's stash list to a private ref.
+   */
+  private async stashUntrackedFiles(
+    repo: RepoRecord,
+    signal: AbortSignal,
+    label: string,
+    paths: string[]
+  ): Promise<CommandTranscript> {
+    const previousStash = await this.resolveRef(repo, "refs/stash");
+    const transcript = await this.runRepoGitCommand(
+      repo,
+      [
+        "--literal-pathspecs",
+        "stash",
+        "push",
+        "--include-untracked",
+        "-m",
+        `kachina: discard ${label}`,
+        "--pathspec-from-file=-",
+        "--pathspec-file-nul"
+      ],
+      { signal, timeoutMs: 60_000, input: paths.join("\0") }
+    );
+    this.pushTranscript(repo, transcript);
+
+    const commit = await this.resolveRef(repo, "refs/stash");
+    if (!commit || commit === previousStash) {
+      throw new Error("Nothing to discard.");
+    }
+    await this.saveRecoveryPoint(repo, signal, { label, commit, paths, kind: "untracked" });
+    this.pushTranscript(
+      repo,
+      await this.runRepoGitCommand(repo, ["stash", "drop", "--quiet", "stash@{0}"], {
+        signal,
+        timeoutMs: 20_000
+      })
+    );
+    return transcript;
+  }
+
+  private async saveRecoveryPoint(
+    repo: RepoRecord,
+    signal: AbortSignal,
+    details: Pick<RecoveryPoint, "label" | "commit" | "paths" | "kind">
+  ): Promise<void> {
+    const createdAt = new Date();
+    const id = newId("recovery");
+    const point: RecoveryPoint = {
+      id,
+      ...details,
+      ref: `refs/kachina/recovery/${id}`,
+      createdAt: createdAt.toISOString(),
+      expiresAt: new Date(createdAt.getTime() + RECOVERY_RETENTION_MS).toISOString()
+    };
+    const transcript = await this.runRepoGitCommand(
+      repo,
+      ["update-ref", "-m", "kachina: recovery point", point.ref, point.commit],
+      { signal, timeoutMs: 20_000 }
+    );
+    this.pushTranscript(repo, transcript);
+    repo.recoveryPoints.unshift(point);
+  }
+
+  /**
+   * Re-applies the captured changes of single files. Applying the whole snapshot would replay
+   * every other change in it, so the index and working tree parts are diffed against the
+   * snapshot's base and applied separately; both are checked first so nothing half-applies.
+   */
+  private async applyRecoveredPaths(
+    repo: RepoRecord,
+    point: RecoveryPoint,
+    signal: AbortSignal
+  ): Promise<CommandTranscript | undefined> {
+    const base = `${point.commit}^1`;
+    const patches: Array<{ args: string[]; patch: string }> = [];
+    for (const [target, args] of [
+      [`${point.commit}^2`, ["apply", "--cached"]],
+      [point.commit, ["apply"]]
+    ] as const) {
+      const diff = await this.runGitRead(repo, [
+        "--literal-pathspecs",
+        ...DIFF_ARGS,
+        "--binary",
+        base,
+        target,
+        "--",
+        ...point.paths
+      ]);
+      if (diff.stdout) {
+        patches.push({ args: [...args], patch: diff.stdout });
+      }
+    }
+
+    let transcript: CommandTranscript | undefined;
+    for (const check of [true, false]) {
+      for (const { args, patch } of patches) {
+        transcript = await this.runRepoGitCommand(repo, check ? [...args, "--check"] : args, {
+          signal,
+          timeoutMs: 30_000,
+          input: patch
+        });
+        this.pushTranscript(repo, transcript);
+      }
+    }
+    return transcript;
+  }
+
+  private async deleteRecoveryPoint(
+    repo: RepoRecord,
+    point: RecoveryPoint,
+    signal: AbortSignal
+  ): Promise<void> {
+    const transcript = await this.runRepoGitCommand(repo, ["update-ref", "-d", point.ref], {
+      signal,
+      timeoutMs: 20_000
+    });
+    this.pushTranscript(repo, transcript);
+    repo.recoveryPoints = repo.recoveryPoints.filter((item) => item.id !== point.id);
+  }
+
+  private async pruneRecoveryPoints(repo: RepoRecord, signal: AbortSignal): Promise<void> {
+    const now = Date.now();
+    for (const point of repo.recoveryPoints.filter(
+      (item) => Date.parse(item.expiresAt) <= now
+    )) {
+      try {
+        await this.deleteRecoveryPoint(repo, point, signal);
+      } catch (error) {
+        // Keep the record so the next refresh retries instead of leaking the ref.
+        if (!(error instanceof CommandFailedError)) {
+          throw error;
+        }
+        this.pushTranscript(repo, error.transcript);
+      }
+    }
+  }
+
+  private invalidRequest(message: string): RepoActionResult {
+    return {
+      ok: false,
+      message,
+      snapshot: this.getSnapshot()
+    };
+  }
+
   private async handleActionFailure(
     repo: RepoRecord,
     fallbackMessage: string,
@@ -711,6 +2664,7 @@ exit 127
       repo.lastErrorTranscript = error.transcript;
       this.pushTranscript(repo, error.transcript);
       repo.updatedAt = nowIso();
+      this.emitRepo(repo);
       await this.persist();
       return {
         ok: false,
@@ -723,68 +2677,122 @@ exit 127
     const message = (error as Error).message || fallbackMessage;
     repo.lastError = message;
     repo.updatedAt = nowIso();
+    this.emitRepo(repo);
     await this.persist();
     return {
       ok: false,
       message,
-      snapshot: this.getSnapshot()
+      snapshot: this.getSnapshot(),
+      ...(error instanceof ActionDetailsError ? error.details : {})
     };
   }
 
+  /** What the scheduler runs: a network pass when the repo's fetch policy asks for one. */
   private async refreshRepoDirect(repo: RepoRecord, signal: AbortSignal): Promise<void> {
-    let statusTranscript: CommandTranscript | null = null;
-    let fetchError: CommandTranscript | null = null;
+    if (this.shouldFetchOnRefresh(repo)) {
+      await this.fetchRepoDirect(repo, signal);
+    } else {
+      await this.refreshLocalDirect(repo, signal);
+    }
+  }
 
-    if (this.state.settings.fetchOnRefresh) {
-      try {
-        const transcript = await this.runRepoGitCommand(
-          repo,
-          ["fetch", "--all", "--prune", "--quiet"],
-          {
-            signal,
-            timeoutMs: 45_000
-          }
-        );
-        this.pushTranscript(repo, transcript);
-      } catch (error) {
-        if (error instanceof CommandFailedError) {
-          fetchError = error.transcript;
-          this.pushTranscript(repo, error.transcript);
-        }
+  /** Network pass: fetches, then runs the local pass so ahead/behind take in what arrived. */
+  private async fetchRepoDirect(repo: RepoRecord, signal: AbortSignal): Promise<void> {
+    try {
+      await this.runFetchCommand(repo, signal, 45_000);
+    } catch (error) {
+      // The local pass still runs; the failure is recorded in the repo's status.
+      if (!(error instanceof CommandFailedError)) {
+        throw error;
+      }
+    }
+    await this.refreshLocalDirect(repo, signal);
+  }
+
+  /** Fetches every remote and keeps the outcome for the next local pass; failures still throw. */
+  private async runFetchCommand(
+    repo: RepoRecord,
+    signal: AbortSignal,
+    timeoutMs: number
+  ): Promise<CommandTranscript> {
+    this.fetchedAt.set(repo.id, Date.now());
+    try {
+      const transcript = await this.runRepoGitCommand(repo, FETCH_ARGS, { signal, timeoutMs });
+      this.pushTranscript(repo, transcript);
+      this.pendingFetches.set(repo.id, { lastFetchedAt: nowIso(), lastFetchError: null });
+      return transcript;
+    } catch (error) {
+      if (error instanceof CommandFailedError) {
+        this.pushTranscript(repo, error.transcript);
+        repo.lastErrorTranscript = error.transcript;
+        this.pendingFetches.set(repo.id, {
+          lastFetchedAt: repo.status?.lastFetchedAt ?? null,
+          lastFetchError:
+            error.transcript.stderr.trim() ||
+            (error.transcript.timedOut ? "Fetch timed out." : "git fetch failed.")
+        });
       }
+      throw error;
     }
+  }
 
+  /** Local pass: status, operation state, stashes and branches. Never touches the network. */
+  private async refreshLocalDirect(repo: RepoRecord, signal: AbortSignal): Promise<void> {
+    let statusTranscript: CommandTranscript | null = null;
+    const fetch: FetchRecord = this.pendingFetches.get(repo.id) ?? {
+      lastFetchedAt: repo.status?.lastFetchedAt ?? null,
+      lastFetchError: repo.status?.lastFetchError ?? null
+    };
+
+    await this.pruneRecoveryPoints(repo, signal);
+
+    this.refreshedAt.set(repo.id, Date.now());
     try {
       statusTranscript = await this.runRepoGitCommand(
         repo,
-        ["status", "--porcelain=v1", "--branch", "-uall"],
+        STATUS_ARGS,
         {
           signal,
           timeoutMs: 30_000
         }
       );
-      this.pushTranscript(repo, statusTranscript);
+      // Refreshes run on every watched change, so only a failed status makes the history.
       const parsed = parseStatusOutput(statusTranscript.stdout);
       const { mergeInProgress, rebaseInProgress } =
         await this.detectRepositoryOperationState(repo, signal);
+      const stashes = parsed.stashCount > 0 ? await this.readStashes(repo, signal) : [];
+      const hasStaleStashes = this.hasStaleStashes(stashes);
+      const branches = parsed.headOid ? await this.readBranches(repo, signal) : [];
+      const branchAlerts = await this.readBranchAlerts(repo, signal, branches);
+      repo.remotes = await this.readRemotes(repo, signal);
+      this.applyRepoGroups(repo);
 
       repo.status = {
         ...parsed,
+        stashes,
+        hasStaleStashes,
+        branchAlerts,
+        lastCommitAt: branches.find((branch) => branch.isCurrent)?.lastCommitAt ?? null,
         mergeInProgress,
         rebaseInProgress,
         inaccessible: false,
         needsAttention:
           parsed.needsAttention ||
+          hasStaleStashes ||
+          branchAlerts.length > 0 ||
           mergeInProgress ||
           rebaseInProgress ||
-          Boolean(fetchError),
-        refreshedAt: nowIso()
+          Boolean(fetch.lastFetchError),
+        refreshedAt: nowIso(),
+        ...fetch
       };
-      repo.lastError = fetchError
+      this.pendingFetches.delete(repo.id);
+      repo.lastError = fetch.lastFetchError
         ? `Fetch failed (see transcript). Status may be stale against upstream.`
         : null;
-      repo.lastErrorTranscript = fetchError;
+      repo.lastErrorTranscript = fetch.lastFetchError ? repo.lastErrorTranscript : null;
       repo.updatedAt = nowIso();
+      this.emitRepo(repo);
     } catch (error) {
       if (error instanceof CommandFailedError) {
         const failedStatus = error.transcript;
@@ -802,16 +2810,26 @@ exit 127
           branch: "unknown",
           isDetached: false,
           hasUpstream: false,
+          upstream: null,
           ahead: 0,
           behind: 0,
+          stashCount: 0,
+          stashes: [],
+          hasStaleStashes: false,
+          branchAlerts: [],
+          headOid: null,
+          lastCommitAt: null,
           mergeInProgress: false,
           rebaseInProgress: false,
           inaccessible: true,
-          refreshedAt: nowIso()
+          refreshedAt: nowIso(),
+          ...fetch
         };
+        this.pendingFetches.delete(repo.id);
         repo.lastError = "Repository inaccessible or git command failed.";
         repo.lastErrorTranscript = failedStatus;
         repo.updatedAt = nowIso();
+        this.emitRepo(repo);
         return;
       }
       throw error;
@@ -903,6 +2921,22 @@ exit 127
     }
   }
 
+  private queueLimits(): QueueLimits {
+    const { maxConcurrentOperations, maxConcurrentOperationsPerEnvironment } =
+      this.state.settings;
+    return {
+      maxConcurrent: normalizeConcurrencyLimit(
+        maxConcurrentOperations,
+        defaultSettings.maxConcurrentOperations
+      ),
+      maxConcurrentPerEnvironment:
+        maxConcurrentOperationsPerEnvironment === null ||
+        maxConcurrentOperationsPerEnvironment === undefined
+          ? null
+          : normalizeConcurrencyLimit(maxConcurrentOperationsPerEnvironment, 1)
+    };
+  }
+
   private getRepo(repoId: string): RepoRecord {
     const repo = this.state.repos.find((item) => item.id === repoId);
     if (!repo) {
@@ -917,6 +2951,9 @@ exit 127
     options: Omit<RunCommandOptions, "cwd" | "environment"> = {}
   ): Promise<CommandTranscript> {
     const operationId = repo.activeOperation?.id;
+    // The command is announced once; after that only new output goes out, so a long fetch
+    // or push does not resend everything it printed so far.
+    let sent: { stdout: number; stderr: number } | null = null;
     try {
       return await runGitCommand(repo.environment, repo.path, args, {
         ...options,
@@ -924,6 +2961,19 @@ exit 127
           const activeOperation = repo.activeOperation;
           if (operationId && activeOperation?.id === operationId) {
             activeOperation.currentCommand = command;
+            if (!sent) {
+              this.emit({ type: "commandProgress", repoId: repo.id, operationId, command });
+            } else {
+              this.emit({
+                type: "commandOutput",
+                repoId: repo.id,
+                operationId,
+                startedAt: command.startedAt,
+                stdout: command.stdout.slice(sent.stdout),
+                stderr: command.stderr.slice(sent.stderr)
+              });
+            }
+            sent = { stdout: command.stdout.length, stderr: command.stderr.length };
           }
           options.onProgress?.(command);
         }
@@ -932,10 +2982,42 @@ exit 127
       const activeOperation = repo.activeOperation;
       if (operationId && activeOperation?.id === operationId) {
         activeOperation.currentCommand = null;
+        this.emit({
+          type: "commandProgress",
+          repoId: repo.id,
+          operationId,
+          command: null
+        });
+      }
+    }
+  }
+
+  /** Runs a read-only git command outside the queue without recording a transcript. */
+  private async runGitRead(
+    repo: RepoRecord,
+    args: string[],
+    allowedExitCodes: number[] = [0]
+  ): Promise<CommandTranscript> {
+    try {
+      return await runGitCommand(repo.environment, repo.path, args, { timeoutMs: 30_000 });
+    } catch (error) {
+      if (
+        error instanceof CommandFailedError &&
+        !error.transcript.timedOut &&
+        error.transcript.exitCode !== null &&
+        allowedExitCodes.includes(error.transcript.exitCode)
+      ) {
+        return error.transcript;
       }
+      throw error;
     }
   }
 
+  private async resolveRef(repo: RepoRecord, ref: string): Promise<string | null> {
+    const transcript = await this.runGitRead(repo, ["rev-parse", "-q", "--verify", ref], [0, 1]);
+    return transcript.exitCode === 0 ? transcript.stdout.trim() || null : null;
+  }
+
   private registerRepo(input: {
     displayName: string;
     path: string;
@@ -959,10 +3041,27 @@ exit 127
       updatedAt: now,
       status: null,
       activeOperation: null,
+      queuedOperations: [],
       lastError: null,
       lastErrorTranscript: null,
-      transcripts: []
+      transcripts: [],
+      recoveryPoints: [],
+      syncStrategy: null,
+      remotes: [],
+      manualGroupIds: [],
+      groupIds: [],
+      lastActionAt: null,
+      notes: "",
+      accentColor: null,
+      editorCommand: null,
+      fetchPolicy: "default",
+      fetchIntervalMinutes: DEFAULT_FETCH_INTERVAL_MINUTES,
+      refreshIntervalSeconds: null,
+      autoRefresh: true,
+      watching: false,
+      watchError: null
     };
+    this.applyRepoGroups(repo);
     this.state.repos.push(repo);
     return repo;
   }
@@ -972,6 +3071,27 @@ exit 127
     if (repo.transcripts.length > HISTORY_LIMIT) {
       repo.transcripts = repo.transcripts.slice(-HISTORY_LIMIT);
     }
+    this.emitRepo(repo);
+  }
+
+  private emit(event: KachinaEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch {
+        // A broken subscriber must not interrupt repository work.
+      }
+    }
+  }
+
+  private emitRepo(repo: RepoRecord): void {
+    this.emit({ type: "repoUpdated", repo });
+  }
+
+  private emitSnapshot(): DashboardSnapshot {
+    const snapshot = this.getSnapshot();
+    this.emit({ type: "snapshot", snapshot });
+    return snapshot;
   }
 
   private async assertIsGitRepository(
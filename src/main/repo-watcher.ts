@@ -0,0 +1,277 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import { watch, type FSWatcher } from "node:fs";
+import type { RepoEnvironment } from "../shared/types";
+import { shellEscape } from "./command-runner";
+
+export interface WatchedRepo {
+  id: string;
+  path: string;
+  environment: RepoEnvironment;
+}
+
+interface RepoWatcherCallbacks {
+  /**
+   * Called once per burst of changes, after the repo has been quiet for the debounce delay or
+   * changing for `MAX_PENDING_WAIT_MS`, with the changed paths relative to the repo, or `null`
+   * when they are not all known.
+   */
+  onChange: (repoId: string, changedPaths: string[] | null) => void;
+  /** Watching these repos stopped working; they fall back to timed refreshes. */
+  onUnavailable: (repoIds: string[], reason: string) => void;
+}
+
+interface PendingChange {
+  timer: NodeJS.Timeout;
+  firstChangeAt: number;
+  /** `null` once a change without a path or more than `MAX_PENDING_PATHS` came in. */
+  paths: Set<string> | null;
+}
+
+interface DistroWatch {
+  /** The watched paths, so an unchanged set of repos keeps its helper running. */
+  key: string;
+  repos: WatchedRepo[];
+  child: ChildProcess;
+}
+
+const MISSING_COMMAND_EXIT_CODE = 127;
+const MAX_PENDING_PATHS = 200;
+/** A repo that never goes quiet, like one a build keeps writing to, still refreshes this often. */
+const MAX_PENDING_WAIT_MS = 10_000;
+
+/**
+ * Dependency and tool caches that are practically always ignored and can hold more files than
+ * the rest of the repo. They are skipped without asking git; other ignored paths are checked
+ * by whoever handles the change.
+ */
+const HEAVY_DIRECTORIES = [
+  "node_modules",
+  "bower_components",
+  "__pycache__",
+  ".venv",
+  ".tox",
+  ".gradle",
+  ".next",
+  ".nuxt"
+];
+
+/** Keeps `inotifywait` from spending watches on `.git` internals and heavy directories. */
+const INOTIFY_EXCLUDE = `/(\\.git/(objects|logs|refs)|${HEAVY_DIRECTORIES.map((name) =>
+  name.replace(/\./g, "\\.")
+).join("|")})(/|$)`;
+
+/**
+ * Only the working tree, `HEAD` and the index change what a refresh would show; the rest of
+ * `.git` churns on every fetch and gc.
+ */
+function isRelevantChange(relativePath: string | null): boolean {
+  if (!relativePath) {
+    return true;
+  }
+  const parts = relativePath.split(/[\\/]/);
+  if (parts[0] === ".git") {
+    return parts.length === 2 && ["HEAD", "index"].includes(parts[1]);
+  }
+  return !parts.some((part) => HEAVY_DIRECTORIES.includes(part));
+}
+
+/**
+ * Watches Windows repos with recursive `fs.watch` and WSL repos with one `inotifywait` helper
+ * per distro, so a repo is refreshed when it changes instead of on every timer tick.
+ */
+export class RepoWatcher {
+  private readonly windowsWatches = new Map<string, { path: string; watcher: FSWatcher }>();
+  private readonly distroWatches = new Map<string, DistroWatch>();
+  private readonly pending = new Map<string, PendingChange>();
+  /** Watches that failed are not retried until the next `reset`. */
+  private readonly failedKeys = new Set<string>();
+
+  constructor(
+    private readonly callbacks: RepoWatcherCallbacks,
+    private readonly debounceMs = 1_500
+  ) {}
+
+  /** Starts and stops watches so exactly `repos` are watched. */
+  sync(repos: WatchedRepo[]): void {
+    const windowsRepos = repos.filter((repo) => repo.environment.kind === "windows");
+    for (const [repoId, entry] of this.windowsWatches) {
+      if (windowsRepos.find((repo) => repo.id === repoId)?.path !== entry.path) {
+        entry.watcher.close();
+        this.windowsWatches.delete(repoId);
+      }
+    }
+    for (const repo of windowsRepos) {
+      if (!this.windowsWatches.has(repo.id) && !this.failedKeys.has(`windows:${repo.path}`)) {
+        this.watchWindowsRepo(repo);
+      }
+    }
+
+    const byDistro = new Map<string, WatchedRepo[]>();
+    for (const repo of repos) {
+      if (repo.environment.kind === "wsl") {
+        byDistro.set(repo.environment.distro, [
+          ...(byDistro.get(repo.environment.distro) ?? []),
+          repo
+        ]);
+      }
+    }
+    for (const [distro, entry] of this.distroWatches) {
+      if (distroKey(distro, byDistro.get(distro) ?? []) !== entry.key) {
+        this.stopDistro(distro);
+      }
+    }
+    for (const [distro, distroRepos] of byDistro) {
+      const key = distroKey(distro, distroRepos);
+      if (!this.distroWatches.has(distro) && !this.failedKeys.has(key)) {
+        this.watchDistro(distro, key, distroRepos);
+      }
+    }
+  }
+
+  isWatching(repoId: string): boolean {
+    return (
+      this.windowsWatches.has(repoId) ||
+      [...this.distroWatches.values()].some((entry) =>
+        entry.repos.some((repo) => repo.id === repoId)
+      )
+    );
+  }
+
+  /** Stops every watch and forgets past failures, so the next `sync` tries them all again. */
+  reset(): void {
+    for (const entry of this.windowsWatches.values()) {
+      entry.watcher.close();
+    }
+    this.windowsWatches.clear();
+    for (const distro of [...this.distroWatches.keys()]) {
+      this.stopDistro(distro);
+    }
+    for (const change of this.pending.values()) {
+      clearTimeout(change.timer);
+    }
+    this.pending.clear();
+    this.failedKeys.clear();
+  }
+
+  private watchWindowsRepo(repo: WatchedRepo): void {
+    let watcher: FSWatcher;
+    try {
+      watcher = watch(repo.path, { recursive: true }, (_event, filename) => {
+        const relativePath = filename ? filename.toString() : null;
+        if (isRelevantChange(relativePath)) {
+          this.schedule(repo.id, relativePath);
+        }
+      });
+    } catch (error) {
+      this.fail(`windows:${repo.path}`, [repo.id], (error as Error).message);
+      return;
+    }
+    watcher.on("error", (error) => {
+      watcher.close();
+      this.windowsWatches.delete(repo.id);
+      this.fail(`windows:${repo.path}`, [repo.id], error.message);
+    });
+    watcher.unref();
+    this.windowsWatches.set(repo.id, { path: repo.path, watcher });
+  }
+
+  private watchDistro(distro: string, key: string, repos: WatchedRepo[]): void {
+    const script = [
+      `command -v inotifywait >/dev/null || exit ${MISSING_COMMAND_EXIT_CODE}`,
+      [
+        "exec inotifywait -m -r -q",
+        "-e modify,attrib,create,delete,move",
+        "--format '%w%f'",
+        `--exclude ${shellEscape(INOTIFY_EXCLUDE)}`,
+        "--",
+        ...repos.map((repo) => shellEscape(repo.path))
+      ].join(" ")
+    ].join("\n");
+    const child = spawn("wsl.exe", ["-d", distro, "--", "bash", "-lc", script], {
+      windowsHide: true
+    });
+    const entry: DistroWatch = { key, repos, child };
+    this.distroWatches.set(distro, entry);
+
+    let pending = "";
+    let stderr = "";
+    child.stdout?.on("data", (chunk: Buffer) => {
+      const lines = (pending + chunk.toString("utf8")).split("\n");
+      pending = lines.pop() ?? "";
+      for (const line of lines) {
+        this.handleWslChange(repos, line);
+      }
+    });
+    child.stderr?.on("data", (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString("utf8")).slice(-2_000);
+    });
+    const stopped = (reason: string): void => {
+      // A helper replaced by `sync` or `reset` is expected to exit.
+      if (this.distroWatches.get(distro) !== entry) {
+        return;
+      }
+      this.distroWatches.delete(distro);
+      this.fail(key, repos.map((repo) => repo.id), reason);
+    };
+    child.on("error", (error) => stopped(error.message));
+    child.on("close", (exitCode) =>
+      stopped(
+        exitCode === MISSING_COMMAND_EXIT_CODE
+          ? `inotifywait is not installed in ${distro}; install inotify-tools to watch its repos.`
+          : stderr.trim() || `The change watcher in ${distro} exited with code ${exitCode}.`
+      )
+    );
+  }
+
+  private handleWslChange(repos: WatchedRepo[], changedPath: string): void {
+    const repo = repos
+      .filter((item) => changedPath.startsWith(`${item.path.replace(/\/+$/, "")}/`))
+      .sort((left, right) => right.path.length - left.path.length)[0];
+    const relativePath = repo ? changedPath.slice(repo.path.replace(/\/+$/, "").length + 1) : "";
+    if (repo && isRelevantChange(relativePath)) {
+      this.schedule(repo.id, relativePath);
+    }
+  }
+
+  private stopDistro(distro: string): void {
+    const entry = this.distroWatches.get(distro);
+    this.distroWatches.delete(distro);
+    entry?.child.kill();
+  }
+
+  private schedule(repoId: string, relativePath: string | null): void {
+    const previous = this.pending.get(repoId);
+    if (previous) {
+      clearTimeout(previous.timer);
+    }
+    let paths = previous ? previous.paths : new Set<string>();
+    const normalized = relativePath?.replace(/\\/g, "/");
+    if (paths && normalized && (paths.has(normalized) || paths.size < MAX_PENDING_PATHS)) {
+      paths.add(normalized);
+    } else {
+      paths = null;
+    }
+    const firstChangeAt = previous?.firstChangeAt ?? Date.now();
+    const timer = setTimeout(
+      () => {
+        this.pending.delete(repoId);
+        this.callbacks.onChange(repoId, paths ? [...paths] : null);
+      },
+      Math.min(this.debounceMs, firstChangeAt + MAX_PENDING_WAIT_MS - Date.now())
+    );
+    timer.unref();
+    this.pending.set(repoId, { timer, firstChangeAt, paths });
+  }
+
+  private fail(key: string, repoIds: string[], reason: string): void {
+    this.failedKeys.add(key);
+    this.callbacks.onUnavailable(repoIds, reason);
+  }
+}
+
+function distroKey(distro: string, repos: WatchedRepo[]): string {
+  return `wsl:${distro}:${repos
+    .map((repo) => repo.path)
+    .sort()
+    .join("\n")}`;
+}
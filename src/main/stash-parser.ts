@@ -0,0 +1,59 @@
+import type { StashEntry, StashFileStat } from "../shared/types";
+
+export const STASH_LIST_ARGS = [
+  "stash",
+  "list",
+  "-z",
+  "--format=%H%x1f%P%x1f%ct%x1f%gs"
+];
+
+const FIELD_SEPARATOR = "\x1f";
+
+/** Splits the reflog subject, e.g. `WIP on main: 1a2b3c4 subject` or `On main: message`. */
+function parseSubject(subject: string): { branch: string | null; message: string } {
+  const match = subject.match(/^(?:WIP on|On) ((?:\(no branch\))|[^:]+): (.*)$/s);
+  if (!match) {
+    return { branch: null, message: subject };
+  }
+  return {
+    branch: match[1] === "(no branch)" ? null : match[1],
+    message: match[2]
+  };
+}
+
+export function parseStashList(stdout: string): StashEntry[] {
+  return stdout
+    .split("\0")
+    .filter((record) => record.trim())
+    .map((record, index) => {
+      const [oid = "", parents = "", committedAt = "", subject = ""] = record
+        .replace(/^\n/, "")
+        .split(FIELD_SEPARATOR);
+      const seconds = Number.parseInt(committedAt, 10);
+      return {
+        oid,
+        index,
+        ...parseSubject(subject),
+        createdAt: new Date(Number.isFinite(seconds) ? seconds * 1_000 : 0).toISOString(),
+        // A third parent holds the untracked files captured with `--include-untracked`.
+        hasUntracked: parents.split(" ").filter(Boolean).length >= 3
+      };
+    });
+}
+
+/** Parses `--numstat -z --no-renames` output; binary files report `-` for both counts. */
+export function parseNumstat(stdout: string, untracked: boolean): StashFileStat[] {
+  return stdout
+    .split("\0")
+    .map((record) => record.replace(/^\n/, ""))
+    .filter(Boolean)
+    .map((record) => {
+      const [additions = "-", deletions = "-", ...pathParts] = record.split("\t");
+      return {
+        path: pathParts.join("\t"),
+        additions: additions === "-" ? null : Number.parseInt(additions, 10),
+        deletions: deletions === "-" ? null : Number.parseInt(deletions, 10),
+        untracked
+      };
+    });
+}
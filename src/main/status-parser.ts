@@ -0,0 +1,226 @@
+import type {
+  ChangedFile,
+  FileModes,
+  RepoStatusSummary,
+  SubmoduleState
+} from "../shared/types";
+
+export const STATUS_ARGS = [
+  // Status must not rewrite the index: the change watcher would see that as a new change.
+  "--no-optional-locks",
+  "status",
+  "--porcelain=v2",
+  "--branch",
+  "--show-stash",
+  "-z",
+  "-uall"
+];
+
+export type ParsedStatus = Omit<
+  RepoStatusSummary,
+  | "refreshedAt"
+  | "mergeInProgress"
+  | "rebaseInProgress"
+  | "inaccessible"
+  | "stashes"
+  | "hasStaleStashes"
+  | "branchAlerts"
+  | "lastCommitAt"
+  | "lastFetchedAt"
+  | "lastFetchError"
+>;
+
+/**
+ * Splits a porcelain v2 record into its space-separated fields. The final field is
+ * the path, which may itself contain spaces, so it is returned unsplit.
+ */
+function splitRecord(record: string, fieldCount: number): { fields: string[]; rest: string } {
+  const fields: string[] = [];
+  let start = 0;
+  for (let index = 0; index < fieldCount; index += 1) {
+    const end = record.indexOf(" ", start);
+    if (end === -1) {
+      fields.push(record.slice(start));
+      return { fields, rest: "" };
+    }
+    fields.push(record.slice(start, end));
+    start = end + 1;
+  }
+  return { fields, rest: record.slice(start) };
+}
+
+function normalizeStatusCode(code: string | undefined): string {
+  return !code || code === "." ? " " : code;
+}
+
+function parseSubmoduleState(field: string): SubmoduleState | null {
+  if (!field.startsWith("S")) {
+    return null;
+  }
+  return {
+    commitChanged: field[1] === "C",
+    hasTrackedChanges: field[2] === "M",
+    hasUntrackedChanges: field[3] === "U"
+  };
+}
+
+function parseModes(fields: string[]): FileModes {
+  return { head: fields[3] ?? "", index: fields[4] ?? "", worktree: fields[5] ?? "" };
+}
+
+function parseSimilarity(field: string): { kind: string; score: number | null } {
+  const score = Number.parseInt(field.slice(1), 10);
+  return {
+    kind: field[0] ?? "",
+    score: Number.isFinite(score) ? score : null
+  };
+}
+
+function trackedFile(
+  path: string,
+  xy: string,
+  extra: Partial<ChangedFile> & { isConflicted: boolean }
+): ChangedFile {
+  const indexStatus = normalizeStatusCode(xy[0]);
+  const worktreeStatus = normalizeStatusCode(xy[1]);
+  return {
+    path,
+    originalPath: null,
+    indexStatus,
+    worktreeStatus,
+    isUntracked: false,
+    isStaged: indexStatus !== " ",
+    isUnstaged: worktreeStatus !== " ",
+    renameScore: null,
+    copyScore: null,
+    submodule: null,
+    modes: null,
+    ...extra
+  };
+}
+
+export function parseStatusOutput(stdout: string): ParsedStatus {
+  const records = stdout.split("\0");
+
+  let branch = "detached";
+  let isDetached = false;
+  let hasUpstream = false;
+  let upstream: string | null = null;
+  let headOid: string | null = null;
+  let stashCount = 0;
+  let ahead = 0;
+  let behind = 0;
+  const changedFiles: ChangedFile[] = [];
+
+  for (let index = 0; index < records.length; index += 1) {
+    const record = records[index];
+    if (!record) {
+      continue;
+    }
+
+    if (record.startsWith("# ")) {
+      const [key, ...valueParts] = record.slice(2).split(" ");
+      const value = valueParts.join(" ").trim();
+      if (key === "branch.oid") {
+        headOid = value === "(initial)" ? null : value;
+      } else if (key === "branch.head") {
+        isDetached = value === "(detached)";
+        branch = isDetached ? "detached" : value || "unknown";
+      } else if (key === "branch.upstream") {
+        hasUpstream = true;
+        upstream = value || null;
+      } else if (key === "branch.ab") {
+        const match = value.match(/^\+(\d+) -(\d+)$/);
+        if (match) {
+          ahead = Number.parseInt(match[1], 10);
+          behind = Number.parseInt(match[2], 10);
+        }
+      } else if (key === "stash") {
+        stashCount = Number.parseInt(value, 10) || 0;
+      }
+      continue;
+    }
+
+    const kind = record[0];
+    if (kind === "1") {
+      // 1 <XY> <sub> <mH> <mI> <mW> <hH> <hI> <path>
+      const { fields, rest } = splitRecord(record, 8);
+      changedFiles.push(
+        trackedFile(rest, fields[1] ?? "", {
+          isConflicted: false,
+          submodule: parseSubmoduleState(fields[2] ?? ""),
+          modes: parseModes(fields)
+        })
+      );
+    } else if (kind === "2") {
+      // 2 <XY> <sub> <mH> <mI> <mW> <hH> <hI> <X><score> <path>\0<origPath>
+      const { fields, rest } = splitRecord(record, 9);
+      const originalPath = records[index + 1] ?? null;
+      index += 1;
+      const similarity = parseSimilarity(fields[8] ?? "");
+      changedFiles.push(
+        trackedFile(rest, fields[1] ?? "", {
+          originalPath,
+          isConflicted: false,
+          renameScore: similarity.kind === "R" ? similarity.score : null,
+          copyScore: similarity.kind === "C" ? similarity.score : null,
+          submodule: parseSubmoduleState(fields[2] ?? ""),
+          modes: parseModes(fields)
+        })
+      );
+    } else if (kind === "u") {
+      // u <XY> <sub> <m1> <m2> <m3> <mW> <h1> <h2> <h3> <path>
+      const { fields, rest } = splitRecord(record, 10);
+      changedFiles.push(
+        trackedFile(rest, fields[1] ?? "", {
+          isConflicted: true,
+          submodule: parseSubmoduleState(fields[2] ?? "")
+        })
+      );
+    } else if (kind === "?") {
+      changedFiles.push({
+        path: record.slice(2),
+        originalPath: null,
+        indexStatus: "?",
+        worktreeStatus: "?",
+        isUntracked: true,
+        isStaged: false,
+        isUnstaged: true,
+        isConflicted: false,
+        renameScore: null,
+        copyScore: null,
+        submodule: null,
+        modes: null
+      });
+    }
+  }
+
+  const stagedCount = changedFiles.filter((file) => file.isStaged).length;
+  const modifiedCount = changedFiles.filter((file) => !file.isUntracked && file.isUnstaged).length;
+  const untrackedCount = changedFiles.filter((file) => file.isUntracked).length;
+  const conflictedCount = changedFiles.filter((file) => file.isConflicted).length;
+  const hasStaged = stagedCount > 0;
+  const hasUntracked = untrackedCount > 0;
+  const isDirty = stagedCount > 0 || modifiedCount > 0 || untrackedCount > 0;
+  const needsAttention = isDirty || ahead > 0 || behind > 0 || conflictedCount > 0;
+
+  return {
+    needsAttention,
+    isDirty,
+    hasStaged,
+    hasUntracked,
+    stagedCount,
+    modifiedCount,
+    untrackedCount,
+    conflictedCount,
+    changedFiles,
+    branch,
+    isDetached,
+    hasUpstream,
+    upstream,
+    ahead,
+    behind,
+    stashCount,
+    headOid
+  };
+}
@@ -15,10 +15,22 @@ export const defaultSettings: DashboardSettings = {
   editorCommandWindows: "code <path>",
   editorCommandWsl: "code <path>",
   refreshIntervalSeconds: 180,
-  fetchOnRefresh: true
+  fetchOnRefresh: true,
+  watchForChanges: true,
+  maxConcurrentOperations: 4,
+  maxConcurrentOperationsPerEnvironment: null,
+  staleStashDays: 30,
+  syncStrategy: { mode: "rebase", autostash: false, push: true },
+  fastForwardAfterRefresh: false,
+  repoGroups: [],
+  repoSortMode: "attention",
+  pinnedRepoIds: [],
+  customRepoOrder: []
 };
 
 export class JsonStateStore {
+  private pendingSave: Promise<void> = Promise.resolve();
+
   constructor(private readonly filePath: string) {}
 
   async load(): Promise<PersistedState> {
@@ -32,7 +44,8 @@ export class JsonStateStore {
           windowsRoots: parsed.settings?.windowsRoots ?? [],
           wslRoots: parsed.settings?.wslRoots ?? [],
           ignorePatterns: parsed.settings?.ignorePatterns ?? defaultSettings.ignorePatterns,
-          ignoredRepos: parsed.settings?.ignoredRepos ?? defaultSettings.ignoredRepos
+          ignoredRepos: parsed.settings?.ignoredRepos ?? defaultSettings.ignoredRepos,
+          repoGroups: Array.isArray(parsed.settings?.repoGroups) ? parsed.settings.repoGroups : []
         },
         repos: Array.isArray(parsed.repos) ? parsed.repos : []
       };
@@ -45,6 +58,13 @@ export class JsonStateStore {
   }
 
   async save(state: PersistedState): Promise<void> {
+    // Operations on different repos finish concurrently; overlapping writes would interleave.
+    const next = this.pendingSave.then(() => this.write(state));
+    this.pendingSave = next.catch(() => undefined);
+    await next;
+  }
+
+  private async write(state: PersistedState): Promise<void> {
     await fs.mkdir(path.dirname(this.filePath), { recursive: true });
     await fs.writeFile(this.filePath, JSON.stringify(state, null, 2), "utf8");
   }
@@ -1,25 +1,88 @@
 import { contextBridge, ipcRenderer, type IpcRendererEvent } from "electron";
-import type { KachinaApi, KachinaWindowApi } from "../shared/types";
+import type { KachinaApi, KachinaEvent, KachinaWindowApi } from "../shared/types";
 
 const api: KachinaApi = {
   getSnapshot: () => ipcRenderer.invoke("kachina:getSnapshot"),
   refreshAll: () => ipcRenderer.invoke("kachina:refreshAll"),
+  fetchAll: () => ipcRenderer.invoke("kachina:fetchAll"),
+  refreshRepo: (repoId) => ipcRenderer.invoke("kachina:refreshRepo", repoId),
+  fetchRepo: (repoId) => ipcRenderer.invoke("kachina:fetchRepo", repoId),
   scanConfiguredRoots: () => ipcRenderer.invoke("kachina:scanConfiguredRoots"),
   addRepo: (input) => ipcRenderer.invoke("kachina:addRepo", input),
   removeRepo: (repoId) => ipcRenderer.invoke("kachina:removeRepo", repoId),
+  setRepoSyncStrategy: (repoId, strategy) =>
+    ipcRenderer.invoke("kachina:setRepoSyncStrategy", repoId, strategy),
+  updateRepo: (repoId, patch) => ipcRenderer.invoke("kachina:updateRepo", repoId, patch),
+  setRepoGroups: (repoId, groupIds) =>
+    ipcRenderer.invoke("kachina:setRepoGroups", repoId, groupIds),
+  setRepoPinned: (repoId, pinned) => ipcRenderer.invoke("kachina:setRepoPinned", repoId, pinned),
+  reorderRepos: (repoIds) => ipcRenderer.invoke("kachina:reorderRepos", repoIds),
   updateSettings: (input) => ipcRenderer.invoke("kachina:updateSettings", input),
   stageFile: (repoId, filePath) =>
     ipcRenderer.invoke("kachina:stageFile", repoId, filePath),
   unstageFile: (repoId, filePath) =>
     ipcRenderer.invoke("kachina:unstageFile", repoId, filePath),
+  getFileDiff: (repoId, filePath, options) =>
+    ipcRenderer.invoke("kachina:getFileDiff", repoId, filePath, options),
+  stageSelection: (repoId, selection) =>
+    ipcRenderer.invoke("kachina:stageSelection", repoId, selection),
+  unstageSelection: (repoId, selection) =>
+    ipcRenderer.invoke("kachina:unstageSelection", repoId, selection),
+  discardFile: (repoId, filePath) =>
+    ipcRenderer.invoke("kachina:discardFile", repoId, filePath),
+  discardAll: (repoId) => ipcRenderer.invoke("kachina:discardAll", repoId),
+  cleanUntracked: (repoId) => ipcRenderer.invoke("kachina:cleanUntracked", repoId),
+  restoreRecoveryPoint: (repoId, recoveryPointId) =>
+    ipcRenderer.invoke("kachina:restoreRecoveryPoint", repoId, recoveryPointId),
+  getStashFiles: (repoId, stashOid) =>
+    ipcRenderer.invoke("kachina:getStashFiles", repoId, stashOid),
+  createStash: (repoId, input) => ipcRenderer.invoke("kachina:createStash", repoId, input),
+  applyStash: (repoId, stashOid) => ipcRenderer.invoke("kachina:applyStash", repoId, stashOid),
+  popStash: (repoId, stashOid) => ipcRenderer.invoke("kachina:popStash", repoId, stashOid),
+  dropStash: (repoId, stashOid) => ipcRenderer.invoke("kachina:dropStash", repoId, stashOid),
+  listBranches: (repoId) => ipcRenderer.invoke("kachina:listBranches", repoId),
+  checkoutBranch: (repoId, input) => ipcRenderer.invoke("kachina:checkoutBranch", repoId, input),
+  createBranch: (repoId, input) => ipcRenderer.invoke("kachina:createBranch", repoId, input),
+  renameBranch: (repoId, branch, newName) =>
+    ipcRenderer.invoke("kachina:renameBranch", repoId, branch, newName),
+  deleteBranch: (repoId, branch, force) =>
+    ipcRenderer.invoke("kachina:deleteBranch", repoId, branch, force),
+  addRemote: (repoId, name, url) => ipcRenderer.invoke("kachina:addRemote", repoId, name, url),
+  removeRemote: (repoId, name) => ipcRenderer.invoke("kachina:removeRemote", repoId, name),
+  renameRemote: (repoId, name, newName) =>
+    ipcRenderer.invoke("kachina:renameRemote", repoId, name, newName),
+  setRemoteUrl: (repoId, name, url, push) =>
+    ipcRenderer.invoke("kachina:setRemoteUrl", repoId, name, url, push),
+  testRemote: (repoId, name) => ipcRenderer.invoke("kachina:testRemote", repoId, name),
+  getLog: (repoId, query) => ipcRenderer.invoke("kachina:getLog", repoId, query),
+  getCommitDetails: (repoId, oid) => ipcRenderer.invoke("kachina:getCommitDetails", repoId, oid),
   commitRepo: (repoId, message) => ipcRenderer.invoke("kachina:commitRepo", repoId, message),
+  amendCommit: (repoId, input) => ipcRenderer.invoke("kachina:amendCommit", repoId, input),
+  runMergeRebaseAction: (repoId, action) =>
+    ipcRenderer.invoke("kachina:runMergeRebaseAction", repoId, action),
+  getConflictVersions: (repoId, filePath) =>
+    ipcRenderer.invoke("kachina:getConflictVersions", repoId, filePath),
+  resolveConflict: (repoId, filePath, resolution) =>
+    ipcRenderer.invoke("kachina:resolveConflict", repoId, filePath, resolution),
   pushRepo: (repoId) => ipcRenderer.invoke("kachina:pushRepo", repoId),
+  publishBranch: (repoId, remote) => ipcRenderer.invoke("kachina:publishBranch", repoId, remote),
   syncRepo: (repoId) => ipcRenderer.invoke("kachina:syncRepo", repoId),
   openInEditor: (repoId) => ipcRenderer.invoke("kachina:openInEditor", repoId),
   openInFileManager: (repoId) => ipcRenderer.invoke("kachina:openInFileManager", repoId),
   openInTerminal: (repoId) => ipcRenderer.invoke("kachina:openInTerminal", repoId),
   cancelRepoOperation: (repoId) =>
-    ipcRenderer.invoke("kachina:cancelRepoOperation", repoId)
+    ipcRenderer.invoke("kachina:cancelRepoOperation", repoId),
+  runBulkAction: (input) => ipcRenderer.invoke("kachina:runBulkAction", input),
+  fastForwardAll: (groupId) => ipcRenderer.invoke("kachina:fastForwardAll", groupId),
+  cancelBulkAction: (groupId) => ipcRenderer.invoke("kachina:cancelBulkAction", groupId),
+  onEvent: (listener) => {
+    const wrappedListener = (_event: IpcRendererEvent, event: KachinaEvent) =>
+      listener(event);
+    ipcRenderer.on("kachina:event", wrappedListener);
+    return () => {
+      ipcRenderer.removeListener("kachina:event", wrappedListener);
+    };
+  }
 };
 
 const windowApi: KachinaWindowApi = {
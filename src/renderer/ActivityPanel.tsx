@@ -1,5 +1,10 @@
 import { useEffect, useRef } from "react";
-import type { ActiveCommand, CommandTranscript } from "../shared/types";
+import type {
+  ActiveCommand,
+  BulkAction,
+  BulkRepoOutcome,
+  CommandTranscript
+} from "../shared/types";
 
 export type ActivityStatus = "running" | "success" | "error";
 
@@ -16,6 +21,19 @@ export interface ActivityRepoOperation {
   currentCommand: ActiveCommand | null;
 }
 
+export interface ActivityBulkRepo {
+  repoId: string;
+  repoName: string;
+  /** `null` until the repo's action has finished. */
+  outcome: BulkRepoOutcome | null;
+}
+
+export interface ActivityBulk {
+  groupId: string;
+  action: BulkAction;
+  repos: ActivityBulkRepo[];
+}
+
 export interface ActivityState {
   id: number;
   label: string;
@@ -24,13 +42,17 @@ export interface ActivityState {
   status: ActivityStatus;
   commands: ActivityCommand[];
   activeOperations: ActivityRepoOperation[];
+  bulk: ActivityBulk | null;
 }
 
 interface ActivityPanelProps {
   activity: ActivityState;
   isCollapsed: boolean;
+  canRetry: boolean;
   onToggleCollapsed: () => void;
   onDismiss: () => void;
+  onCancelBulk: (groupId: string) => void;
+  onRetryBulk: (bulk: ActivityBulk, repoIds: string[]) => void;
 }
 
 function statusLabel(status: ActivityStatus): string {
@@ -43,16 +65,37 @@ function statusLabel(status: ActivityStatus): string {
   return "Working";
 }
 
+function bulkRepoState(activity: ActivityState, repo: ActivityBulkRepo): string {
+  if (repo.outcome) {
+    return repo.outcome.state;
+  }
+  if (activity.status !== "running") {
+    return "cancelled";
+  }
+  return activity.activeOperations.some((operation) => operation.repoId === repo.repoId)
+    ? "running"
+    : "queued";
+}
+
 export function ActivityPanel({
   activity,
   isCollapsed,
+  canRetry,
   onToggleCollapsed,
-  onDismiss
+  onDismiss,
+  onCancelBulk,
+  onRetryBulk
 }: ActivityPanelProps): JSX.Element {
   const logRef = useRef<HTMLDivElement>(null);
   const runningCommands = activity.activeOperations.filter(
     (operation) => operation.currentCommand
   );
+  const bulk = activity.bulk;
+  const finishedCount = bulk?.repos.filter((repo) => repo.outcome).length ?? 0;
+  const retryRepoIds =
+    bulk?.repos
+      .filter((repo) => !["succeeded", "skipped"].includes(bulkRepoState(activity, repo)))
+      .map((repo) => repo.repoId) ?? [];
 
   useEffect(() => {
     if (!isCollapsed && logRef.current) {
@@ -116,6 +159,49 @@ export function ActivityPanel({
             )}
           </div>
 
+          {bulk && (
+            <div className="activity-bulk">
+              <div className="activity-bulk-head">
+                <span>
+                  {finishedCount} of {bulk.repos.length} done
+                </span>
+                {activity.status === "running" ? (
+                  <button
+                    type="button"
+                    className="secondary"
+                    onClick={() => onCancelBulk(bulk.groupId)}
+                  >
+                    Cancel All
+                  </button>
+                ) : (
+                  retryRepoIds.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => onRetryBulk(bulk, retryRepoIds)}
+                      disabled={!canRetry}
+                    >
+                      Retry {retryRepoIds.length} Failed
+                    </button>
+                  )
+                )}
+              </div>
+              <ul className="activity-bulk-list">
+                {bulk.repos.map((repo) => {
+                  const state = bulkRepoState(activity, repo);
+                  return (
+                    <li key={repo.repoId} className={state}>
+                      <strong>{repo.repoName}</strong>
+                      <span className="activity-bulk-state">{state}</span>
+                      {repo.outcome && repo.outcome.state !== "succeeded" && (
+                        <span className="activity-bulk-message">{repo.outcome.message}</span>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
           <div
             ref={logRef}
             className="activity-terminal"
@@ -158,7 +244,10 @@ export function ActivityPanel({
               activity.commands.map((command) => (
                 <section className="activity-command" key={command.key}>
                   <div className="activity-command-meta">
-                    <span>{command.repoName}</span>
+                    <span>
+                      {command.repoName}
+                      {command.note && ` · ${command.note}`}
+                    </span>
                     <span className={command.exitCode === 0 ? "ok" : "failed"}>
                       exit {command.exitCode ?? "?"}
                     </span>
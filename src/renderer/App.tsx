@@ -1,31 +1,100 @@
 import { FormEvent, KeyboardEvent, useEffect, useMemo, useRef, useState } from "react";
 import type {
+  BranchAlert,
+  BulkAction,
+  BulkActionResult,
+  BulkRepoOutcome,
+  ChangedFile,
   CommandTranscript,
   DashboardSnapshot,
+  FileDiff,
   RepoActionResult,
-  RepoRecord
+  RepoFollowUp,
+  RepoPatch,
+  RepoRecord,
+  RepoSortMode,
+  RepoStatusSummary,
+  SyncStrategy
 } from "../shared/types";
 import {
   ActivityPanel,
+  type ActivityBulk,
   type ActivityCommand,
   type ActivityRepoOperation,
   type ActivityState,
   type ActivityStatus
 } from "./ActivityPanel";
+import { BranchPanel } from "./BranchPanel";
 import { getKachinaApi } from "./browser-api";
+import { ConflictPanel } from "./ConflictPanel";
+import { DiffViewer } from "./DiffViewer";
+import { HistoryPanel } from "./HistoryPanel";
+import { canPublishBranch, defaultPublishRemote, RemotesPanel } from "./RemotesPanel";
 import { closeWebHost, getRendererHost } from "./renderer-host";
+import {
+  fromGroupDrafts,
+  RepoGroupsFields,
+  toGroupDrafts,
+  type RepoGroupDraft
+} from "./RepoGroupsFields";
+import { RepoMetadataForm } from "./RepoMetadataForm";
+import { applyKachinaEvent } from "./snapshot-events";
+import { StashPanel } from "./StashPanel";
+import { SYNC_MODE_LABELS, SyncStrategyFields } from "./SyncStrategyFields";
 import { TitleBar } from "./TitleBar";
 
-type RepoFilter = "all" | "attention" | "dirty" | "ahead";
+type RepoFilter = "all" | "attention" | "dirty" | "ahead" | "behind" | "branches" | "noRemote";
+/** `"all"`, `"ungrouped"` or a group id. */
+type GroupFilter = string;
 type WebShutdownState = "running" | "stopping" | "local-fallback" | "remote-stopped";
 
 const SIMPLE_COMMIT_MESSAGE = "update";
+/** Ahead/behind only know what the last fetch brought in, so they are flagged once it is older. */
+const STALE_FETCH_MS = 60 * 60 * 1_000;
+
+const BULK_ACTION_LABELS: Record<BulkAction, string> = {
+  fetch: "Fetch",
+  pull: "Pull",
+  push: "Push",
+  sync: "Sync",
+  fastForward: "Fast-forward"
+};
+const REPO_SORT_LABELS: Record<RepoSortMode, string> = {
+  attention: "Needs attention first",
+  custom: "Custom order",
+  lastActivity: "Last activity",
+  lastCommit: "Last commit date",
+  changedFiles: "Most changed files",
+  environment: "Environment"
+};
+
+const BULK_BAR_ACTIONS: BulkAction[] = ["fetch", "pull", "push", "sync"];
+
+interface DiffTarget {
+  repoId: string;
+  path: string;
+  staged: boolean;
+}
 
 interface SettingsEditor {
   windowsRootsText: string;
   wslRootsText: string;
   ignorePatternsText: string;
   ignoredReposText: string;
+  staleStashDaysText: string;
+  maxConcurrentText: string;
+  /** Empty means no per-environment limit. */
+  maxConcurrentPerEnvironmentText: string;
+  syncStrategy: SyncStrategy;
+  fastForwardAfterRefresh: boolean;
+  watchForChanges: boolean;
+  repoGroups: RepoGroupDraft[];
+}
+
+interface RepoSection {
+  id: string;
+  name: string;
+  repos: RepoRecord[];
 }
 
 function toSettingsEditor(snapshot: DashboardSnapshot): SettingsEditor {
@@ -33,7 +102,16 @@ function toSettingsEditor(snapshot: DashboardSnapshot): SettingsEditor {
     windowsRootsText: snapshot.settings.windowsRoots.join("\n"),
     wslRootsText: snapshot.settings.wslRoots.map((item) => `${item.distro}:${item.path}`).join("\n"),
     ignorePatternsText: snapshot.settings.ignorePatterns.join("\n"),
-    ignoredReposText: snapshot.settings.ignoredRepos.join("\n")
+    ignoredReposText: snapshot.settings.ignoredRepos.join("\n"),
+    staleStashDaysText: String(snapshot.settings.staleStashDays),
+    maxConcurrentText: String(snapshot.settings.maxConcurrentOperations),
+    maxConcurrentPerEnvironmentText: String(
+      snapshot.settings.maxConcurrentOperationsPerEnvironment ?? ""
+    ),
+    syncStrategy: { ...snapshot.settings.syncStrategy },
+    fastForwardAfterRefresh: snapshot.settings.fastForwardAfterRefresh,
+    watchForChanges: snapshot.settings.watchForChanges,
+    repoGroups: toGroupDrafts(snapshot.settings.repoGroups)
   };
 }
 
@@ -44,6 +122,68 @@ function formatEnv(repo: RepoRecord): string {
   return `WSL:${repo.environment.distro}`;
 }
 
+function isFetchStale(status: RepoStatusSummary): boolean {
+  return (
+    status.hasUpstream &&
+    (status.lastFetchError !== null ||
+      !status.lastFetchedAt ||
+      Date.now() - Date.parse(status.lastFetchedAt) > STALE_FETCH_MS)
+  );
+}
+
+/** Only known once a refresh could read the repo; such repos are lost with the machine. */
+function hasNoRemote(repo: RepoRecord): boolean {
+  return Boolean(repo.status && !repo.status.inaccessible && repo.remotes.length === 0);
+}
+
+function formatQueued(repo: RepoRecord): string | null {
+  const next = repo.queuedOperations[0];
+  if (!next) {
+    return null;
+  }
+  const more = repo.queuedOperations.length > 1 ? ` +${repo.queuedOperations.length - 1}` : "";
+  return `${next.name} queued behind ${next.queuedBehind}${more}`;
+}
+
+function formatBranchAlert(alert: BranchAlert): string {
+  if (alert.reason === "upstreamGone") {
+    return `${alert.branch} (upstream gone)`;
+  }
+  const label = alert.reason === "ahead" ? "unpushed" : "unpublished";
+  return `${alert.branch} (${alert.commitCount} ${label})`;
+}
+
+function withBulkOutcomes(
+  activity: ActivityState | null,
+  groupId: string,
+  outcomes: BulkRepoOutcome[]
+): ActivityState | null {
+  if (!activity?.bulk || activity.bulk.groupId !== groupId) {
+    return activity;
+  }
+  return {
+    ...activity,
+    bulk: {
+      ...activity.bulk,
+      repos: activity.bulk.repos.map((repo) => ({
+        ...repo,
+        outcome: outcomes.find((outcome) => outcome.repoId === repo.repoId) ?? repo.outcome
+      }))
+    }
+  };
+}
+
+function summarizeBulkOutcomes(outcomes: BulkRepoOutcome[]): string {
+  const counts = new Map<string, number>();
+  for (const outcome of outcomes) {
+    counts.set(outcome.state, (counts.get(outcome.state) ?? 0) + 1);
+  }
+  if (counts.size === 0) {
+    return "nothing to do";
+  }
+  return [...counts].map(([state, count]) => `${count} ${state}`).join(", ");
+}
+
 function transcriptKey(repoId: string, transcript: CommandTranscript): string {
   return [
     repoId,
@@ -57,10 +197,22 @@ export function App(): JSX.Element {
   const [snapshot, setSnapshot] = useState<DashboardSnapshot | null>(null);
   const [selectedRepoId, setSelectedRepoId] = useState<string | null>(null);
   const [filter, setFilter] = useState<RepoFilter>("attention");
+  const [groupFilter, setGroupFilter] = useState<GroupFilter>("all");
+  const [collapsedGroupIds, setCollapsedGroupIds] = useState<string[]>([]);
+  const [checkedRepoIds, setCheckedRepoIds] = useState<string[]>([]);
+  const [draggedRepoId, setDraggedRepoId] = useState<string | null>(null);
+  const [isEditingRepo, setIsEditingRepo] = useState(false);
   const [isBusy, setIsBusy] = useState(false);
   const [message, setMessage] = useState<string>("");
+  /** Offered next to the message for the repo whose action asked for it. */
+  const [followUp, setFollowUp] = useState<{ repoId: string; action: RepoFollowUp } | null>(
+    null
+  );
   const [settingsEditor, setSettingsEditor] = useState<SettingsEditor | null>(null);
   const [commitMessage, setCommitMessage] = useState("");
+  const [isAmending, setIsAmending] = useState(false);
+  const [amendPushed, setAmendPushed] = useState(false);
+  const [draftBeforeAmend, setDraftBeforeAmend] = useState("");
   const [isWindowMaximized, setIsWindowMaximized] = useState(false);
   const [isSettingsPanelOpen, setIsSettingsPanelOpen] = useState(false);
   const [isSettingsPanelAnimating, setIsSettingsPanelAnimating] = useState(false);
@@ -68,6 +220,10 @@ export function App(): JSX.Element {
   const [activity, setActivity] = useState<ActivityState | null>(null);
   const [isActivityPanelCollapsed, setIsActivityPanelCollapsed] = useState(false);
   const [webShutdownState, setWebShutdownState] = useState<WebShutdownState>("running");
+  const [diffTarget, setDiffTarget] = useState<DiffTarget | null>(null);
+  const [fileDiff, setFileDiff] = useState<FileDiff | null>(null);
+  const [diffError, setDiffError] = useState<string | null>(null);
+  const [isDiffLoading, setIsDiffLoading] = useState(false);
   const simpleCommitCancelRef = useRef<HTMLButtonElement>(null);
   const primaryActionButtonRef = useRef<HTMLButtonElement>(null);
   const activitySequenceRef = useRef(0);
@@ -84,6 +240,14 @@ export function App(): JSX.Element {
   const filteredRepos = useMemo(() => {
     const repos = snapshot?.repos ?? [];
     return repos.filter((repo) => {
+      const inGroup =
+        groupFilter === "all" ||
+        (groupFilter === "ungrouped"
+          ? repo.groupIds.length === 0
+          : repo.groupIds.includes(groupFilter));
+      if (!inGroup) {
+        return false;
+      }
       if (!repo.status) {
         return filter === "all";
       }
@@ -99,9 +263,51 @@ export function App(): JSX.Element {
       if (filter === "ahead") {
         return repo.status.ahead > 0;
       }
+      if (filter === "behind") {
+        return repo.status.behind > 0;
+      }
+      if (filter === "branches") {
+        return repo.status.branchAlerts.length > 0;
+      }
+      if (filter === "noRemote") {
+        return hasNoRemote(repo);
+      }
       return true;
     });
-  }, [snapshot, filter]);
+  }, [snapshot, filter, groupFilter]);
+
+  // Repos show under every group they belong to; `null` keeps the list flat.
+  const repoSections = useMemo((): RepoSection[] | null => {
+    const groups = snapshot?.settings.repoGroups ?? [];
+    if (groups.length === 0) {
+      return null;
+    }
+    const sections: RepoSection[] = groups.map((group) => ({
+      id: group.id,
+      name: group.name,
+      repos: filteredRepos.filter((repo) => repo.groupIds.includes(group.id))
+    }));
+    sections.push({
+      id: "ungrouped",
+      name: "Ungrouped",
+      repos: filteredRepos.filter((repo) => repo.groupIds.length === 0)
+    });
+    return sections.filter((section) => section.repos.length > 0);
+  }, [snapshot, filteredRepos]);
+
+  // Checked repos win over the filter, even when the filter currently hides some of them.
+  const checkedRepos = (snapshot?.repos ?? []).filter((repo) => checkedRepoIds.includes(repo.id));
+  const bulkTargets = checkedRepos.length > 0 ? checkedRepos : filteredRepos;
+
+  const diffFile = useMemo(
+    () =>
+      diffTarget && diffTarget.repoId === selectedRepo?.id
+        ? selectedRepo.status?.changedFiles.find((file) => file.path === diffTarget.path) ??
+          null
+        : null,
+    [diffTarget, selectedRepo]
+  );
+  const diffRefreshKey = selectedRepo?.status?.refreshedAt;
 
   const hasChangedFiles = Boolean(selectedRepo?.status?.changedFiles.length);
   const needsSync = Boolean(
@@ -109,6 +315,13 @@ export function App(): JSX.Element {
   );
   const primaryActionLabel = hasChangedFiles ? "Commit" : needsSync ? "Sync" : "Synced";
   const primaryActionDisabled = isBusy || (!hasChangedFiles && !needsSync);
+  const selectedHeadOid = selectedRepo?.status?.headOid ?? null;
+  const selectedSyncStrategy = selectedRepo?.syncStrategy ?? snapshot?.settings.syncStrategy;
+  // Same rule as the backend: nothing ahead of the upstream means HEAD is already pushed.
+  const isHeadPushed = Boolean(
+    selectedRepo?.status?.hasUpstream && selectedRepo.status.ahead === 0
+  );
+  const amendDisabled = isBusy || !commitMessage.trim() || (isHeadPushed && !amendPushed);
   const statusMessage = message || "Let's go, Twirly!";
   const isPlaceholderMessage = !message;
   useEffect(() => {
@@ -167,6 +380,10 @@ export function App(): JSX.Element {
     }
   }, [snapshot, selectedRepoId]);
 
+  useEffect(() => {
+    setIsEditingRepo(false);
+  }, [selectedRepoId]);
+
   useEffect(() => {
     if (!isSettingsPanelAnimating) {
       return;
@@ -188,33 +405,84 @@ export function App(): JSX.Element {
   }, [isSimpleCommitDialogOpen]);
 
   useEffect(() => {
-    if (!activity || activity.status !== "running") {
+    if (!diffTarget) {
+      return;
+    }
+    if (!diffFile) {
+      setDiffTarget(null);
+      return;
+    }
+    if (diffTarget.staged ? !diffFile.isStaged : !diffFile.isUnstaged) {
+      setDiffTarget({ ...diffTarget, staged: !diffTarget.staged });
+    }
+  }, [diffTarget, diffFile]);
+
+  useEffect(() => {
+    if (!diffTarget) {
+      setFileDiff(null);
+      setDiffError(null);
       return;
     }
 
     let isCancelled = false;
-    const activityId = activity.id;
-
-    const pollActivity = async (): Promise<void> => {
-      try {
-        const next = await getKachinaApi().getSnapshot();
+    setIsDiffLoading(true);
+    getKachinaApi()
+      .getFileDiff(diffTarget.repoId, diffTarget.path, { staged: diffTarget.staged })
+      .then((next) => {
         if (!isCancelled) {
-          setSnapshot(next);
-          updateActivityFromSnapshot(activityId, next);
+          setFileDiff(next);
+          setDiffError(null);
         }
-      } catch {
-        // The action request reports connection failures through its normal result path.
-      }
-    };
-
-    void pollActivity();
-    const intervalId = window.setInterval(() => void pollActivity(), 500);
+      })
+      .catch((error: unknown) => {
+        if (!isCancelled) {
+          setFileDiff(null);
+          setDiffError((error as Error).message);
+        }
+      })
+      .finally(() => {
+        if (!isCancelled) {
+          setIsDiffLoading(false);
+        }
+      });
 
     return () => {
       isCancelled = true;
-      window.clearInterval(intervalId);
     };
-  }, [activity?.id, activity?.status]);
+  }, [diffTarget, diffRefreshKey]);
+
+  useEffect(() => {
+    const groups = snapshot?.settings.repoGroups ?? [];
+    if (
+      groupFilter !== "all" &&
+      groupFilter !== "ungrouped" &&
+      !groups.some((group) => group.id === groupFilter)
+    ) {
+      setGroupFilter("all");
+    }
+  }, [snapshot, groupFilter]);
+
+  useEffect(() => {
+    setIsAmending(false);
+    setAmendPushed(false);
+  }, [selectedRepoId, selectedHeadOid]);
+
+  useEffect(() => {
+    return getKachinaApi().onEvent((event) => {
+      setSnapshot((current) => applyKachinaEvent(current, event));
+      if (event.type === "bulkActionProgress") {
+        setActivity((current) => withBulkOutcomes(current, event.groupId, [event.outcome]));
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    const activityId = activeActivityIdRef.current;
+    if (!snapshot || activityId === null) {
+      return;
+    }
+    updateActivityFromSnapshot(activityId, snapshot);
+  }, [snapshot]);
 
   function collectActivityCommands(snapshotToRead: DashboardSnapshot): ActivityCommand[] {
     const commands: ActivityCommand[] = [];
@@ -258,7 +526,7 @@ export function App(): JSX.Element {
     );
   }
 
-  function beginActivity(label: string): number {
+  function beginActivity(label: string, bulk: ActivityBulk | null = null): number {
     const id = activitySequenceRef.current + 1;
     activitySequenceRef.current = id;
     activeActivityIdRef.current = id;
@@ -274,7 +542,8 @@ export function App(): JSX.Element {
       finishedAt: null,
       status: "running",
       commands: [],
-      activeOperations: []
+      activeOperations: [],
+      bulk
     });
     setIsActivityPanelCollapsed(false);
     return id;
@@ -338,22 +607,38 @@ export function App(): JSX.Element {
     }
   }
 
-  async function refreshAll(): Promise<void> {
-    const activityId = beginActivity("Refresh All");
+  async function runRefresh(
+    label: string,
+    request: () => Promise<DashboardSnapshot>,
+    doneMessage: string
+  ): Promise<void> {
+    const activityId = beginActivity(label);
     setIsBusy(true);
     try {
-      const next = await getKachinaApi().refreshAll();
+      const next = await request();
       setSnapshot(next);
-      setMessage("Refreshed all repositories.");
+      setMessage(doneMessage);
       finishActivity(activityId, "success", next);
     } catch (error) {
-      setMessage(`Refresh failed: ${(error as Error).message}`);
+      setMessage(`${label} failed: ${(error as Error).message}`);
       finishActivity(activityId, "error");
     } finally {
       setIsBusy(false);
     }
   }
 
+  async function refreshAll(): Promise<void> {
+    await runRefresh(
+      "Refresh All",
+      () => getKachinaApi().refreshAll(),
+      "Refreshed all repositories."
+    );
+  }
+
+  async function fetchAll(): Promise<void> {
+    await runRefresh("Fetch All", () => getKachinaApi().fetchAll(), "Fetched all repositories.");
+  }
+
   async function scanConfiguredRoots(): Promise<void> {
     const activityId = beginActivity("Scan Roots");
     setIsBusy(true);
@@ -375,11 +660,17 @@ export function App(): JSX.Element {
     activityLabel?: string
   ): Promise<void> {
     const activityId = activityLabel ? beginActivity(activityLabel) : null;
+    // Per-repo actions always run on the repo that is selected when they start.
+    const repoId = selectedRepo?.id;
     setIsBusy(true);
+    setFollowUp(null);
     try {
       const result = await action;
       setSnapshot(result.snapshot);
       setMessage(result.message);
+      if (result.followUp && repoId) {
+        setFollowUp({ repoId, action: result.followUp });
+      }
       if (activityId !== null) {
         finishActivity(activityId, result.ok ? "success" : "error", result.snapshot);
       }
@@ -399,6 +690,232 @@ export function App(): JSX.Element {
     }
   }
 
+  async function runBulkAction(action: BulkAction, repoIds: string[]): Promise<void> {
+    await trackBulkAction(
+      action,
+      repoIds,
+      `${BULK_ACTION_LABELS[action]} ${repoIds.length} repos`,
+      (groupId) => getKachinaApi().runBulkAction({ groupId, action, repoIds })
+    );
+  }
+
+  async function fastForwardAll(): Promise<void> {
+    await trackBulkAction(
+      "fastForward",
+      (snapshot?.repos ?? []).map((repo) => repo.id),
+      "Fast-forward Behind",
+      (groupId) => getKachinaApi().fastForwardAll(groupId)
+    );
+  }
+
+  async function trackBulkAction(
+    action: BulkAction,
+    repoIds: string[],
+    label: string,
+    start: (groupId: string) => Promise<BulkActionResult>
+  ): Promise<void> {
+    const repoNames = new Map((snapshot?.repos ?? []).map((repo) => [repo.id, repo.displayName]));
+    const groupId = `bulk_${Date.now().toString(36)}_${activitySequenceRef.current + 1}`;
+    const activityId = beginActivity(label, {
+      groupId,
+      action,
+      repos: repoIds.map((repoId) => ({
+        repoId,
+        repoName: repoNames.get(repoId) ?? repoId,
+        outcome: null
+      }))
+    });
+    setIsBusy(true);
+    try {
+      const result = await start(groupId);
+      setSnapshot(result.snapshot);
+      setActivity((current) => withBulkOutcomes(current, groupId, result.outcomes));
+      setMessage(`${label}: ${summarizeBulkOutcomes(result.outcomes)}.`);
+      finishActivity(activityId, result.ok ? "success" : "error", result.snapshot);
+    } catch (error) {
+      setMessage(`${label} failed: ${(error as Error).message}`);
+      finishActivity(activityId, "error");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  async function cancelBulkAction(groupId: string): Promise<void> {
+    try {
+      setSnapshot(await getKachinaApi().cancelBulkAction(groupId));
+    } catch (error) {
+      setMessage(`Cancel failed: ${(error as Error).message}`);
+    }
+  }
+
+  function setReposChecked(repoIds: string[], checked: boolean): void {
+    setCheckedRepoIds((current) =>
+      checked
+        ? [...current, ...repoIds.filter((id) => !current.includes(id))]
+        : current.filter((id) => !repoIds.includes(id))
+    );
+  }
+
+  function toggleGroupCollapsed(groupId: string): void {
+    setCollapsedGroupIds((current) =>
+      current.includes(groupId) ? current.filter((id) => id !== groupId) : [...current, groupId]
+    );
+  }
+
+  async function updateRepoList(request: Promise<DashboardSnapshot>): Promise<void> {
+    try {
+      setSnapshot(await request);
+    } catch (error) {
+      setMessage(`Repo list update failed: ${(error as Error).message}`);
+    }
+  }
+
+  /** Drops the dragged repo onto `targetId`'s slot, on the side it was dragged from. */
+  function dropRepo(targetId: string): void {
+    const draggedId = draggedRepoId;
+    setDraggedRepoId(null);
+    if (!snapshot || !draggedId || draggedId === targetId) {
+      return;
+    }
+    const ids = snapshot.repos.map((repo) => repo.id);
+    const movingDown = ids.indexOf(draggedId) < ids.indexOf(targetId);
+    const order = ids.filter((id) => id !== draggedId);
+    order.splice(order.indexOf(targetId) + (movingDown ? 1 : 0), 0, draggedId);
+    // Reorder right away so the card does not jump back while the order is saved.
+    setSnapshot({
+      ...snapshot,
+      repos: order.flatMap((id) => snapshot.repos.filter((repo) => repo.id === id))
+    });
+    void updateRepoList(getKachinaApi().reorderRepos(order));
+  }
+
+  async function updateRepoGroups(repo: RepoRecord, groupId: string): Promise<void> {
+    const manualGroupIds = repo.manualGroupIds.includes(groupId)
+      ? repo.manualGroupIds.filter((id) => id !== groupId)
+      : [...repo.manualGroupIds, groupId];
+    setIsBusy(true);
+    try {
+      setSnapshot(await getKachinaApi().setRepoGroups(repo.id, manualGroupIds));
+    } catch (error) {
+      setMessage(`Group update failed: ${(error as Error).message}`);
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  async function updateRepoDetails(repoId: string, patch: RepoPatch): Promise<void> {
+    setIsBusy(true);
+    try {
+      setSnapshot(await getKachinaApi().updateRepo(repoId, patch));
+      setIsEditingRepo(false);
+    } catch (error) {
+      setMessage(`Repo update failed: ${(error as Error).message}`);
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  function toggleRepoChecked(repoId: string): void {
+    setCheckedRepoIds((current) =>
+      current.includes(repoId) ? current.filter((id) => id !== repoId) : [...current, repoId]
+    );
+  }
+
+  function renderRepoCard(repo: RepoRecord, key: string): JSX.Element {
+    const isActive = repo.id === selectedRepoId;
+    const queuedLabel = formatQueued(repo);
+    const isPinned = snapshot?.settings.pinnedRepoIds.includes(repo.id) ?? false;
+    return (
+      <div
+        key={key}
+        className={`repo-card-row${draggedRepoId === repo.id ? " dragging" : ""}`}
+        draggable
+        onDragStart={(event) => {
+          event.dataTransfer.effectAllowed = "move";
+          setDraggedRepoId(repo.id);
+        }}
+        onDragOver={(event) => {
+          if (draggedRepoId) {
+            event.preventDefault();
+          }
+        }}
+        onDrop={(event) => {
+          event.preventDefault();
+          dropRepo(repo.id);
+        }}
+        onDragEnd={() => setDraggedRepoId(null)}
+      >
+        <div className="repo-card-side">
+          <label className="repo-check" title="Include in bulk actions">
+            <input
+              type="checkbox"
+              checked={checkedRepoIds.includes(repo.id)}
+              onChange={() => toggleRepoChecked(repo.id)}
+              aria-label={`Check ${repo.displayName}`}
+            />
+          </label>
+          <button
+            type="button"
+            className={`repo-pin${isPinned ? " pinned" : ""}`}
+            aria-pressed={isPinned}
+            aria-label={`${isPinned ? "Unpin" : "Pin"} ${repo.displayName}`}
+            title={isPinned ? "Unpin" : "Pin to the top"}
+            onClick={() => void updateRepoList(getKachinaApi().setRepoPinned(repo.id, !isPinned))}
+          >
+            {isPinned ? "★" : "☆"}
+          </button>
+        </div>
+        <button
+          className={[
+            "repo-card",
+            isActive ? "selected" : "",
+            repo.accentColor ? "accented" : ""
+          ].join(" ")}
+          style={repo.accentColor ? { borderLeftColor: repo.accentColor } : undefined}
+          onClick={() => setSelectedRepoId(repo.id)}
+        >
+          <div className="repo-card-head">
+            <strong>{repo.displayName}</strong>
+            <span className={`state-pill ${repo.status?.needsAttention ? "warn" : "ok"}`}>
+              {repo.status?.needsAttention ? "Needs Attention" : "Clean"}
+            </span>
+          </div>
+          <p className="repo-meta">
+            {formatEnv(repo)}
+            {!repo.autoRefresh && " · Manual refresh"}
+          </p>
+          <p className="repo-path">{repo.path}</p>
+          {repo.activeOperation ? (
+            <p className="repo-queue running">{repo.activeOperation.name} running</p>
+          ) : (
+            queuedLabel && <p className="repo-queue">{queuedLabel}</p>
+          )}
+          {repo.status && (
+            <div className="repo-stats">
+              <span>Branch {repo.status.branch}</span>
+              <span>Staged {repo.status.stagedCount}</span>
+              <span>Changed {repo.status.modifiedCount}</span>
+              <span>Untracked {repo.status.untrackedCount}</span>
+              <span className={repo.status.hasStaleStashes ? "stale" : ""}>
+                Stashes {repo.status.stashCount}
+              </span>
+              <span
+                className={isFetchStale(repo.status) ? "stale" : ""}
+                title={isFetchStale(repo.status) ? "Not fetched recently" : undefined}
+              >
+                Ahead/Behind {repo.status.ahead}/{repo.status.behind}
+              </span>
+              {repo.status.branchAlerts.length > 0 && (
+                <span className="stale">Branch Alerts {repo.status.branchAlerts.length}</span>
+              )}
+              {hasNoRemote(repo) && <span className="stale">No Remote</span>}
+            </div>
+          )}
+        </button>
+      </div>
+    );
+  }
+
   async function saveSettings(event: FormEvent<HTMLFormElement>): Promise<void> {
     event.preventDefault();
     if (!settingsEditor) {
@@ -439,7 +956,16 @@ export function App(): JSX.Element {
         windowsRoots,
         wslRoots,
         ignorePatterns,
-        ignoredRepos
+        ignoredRepos,
+        staleStashDays: Number(settingsEditor.staleStashDaysText) || 0,
+        maxConcurrentOperations: Number(settingsEditor.maxConcurrentText) || 1,
+        maxConcurrentOperationsPerEnvironment: settingsEditor.maxConcurrentPerEnvironmentText.trim()
+          ? Number(settingsEditor.maxConcurrentPerEnvironmentText) || 1
+          : null,
+        syncStrategy: settingsEditor.syncStrategy,
+        fastForwardAfterRefresh: settingsEditor.fastForwardAfterRefresh,
+        watchForChanges: settingsEditor.watchForChanges,
+        repoGroups: fromGroupDrafts(settingsEditor.repoGroups)
       });
       setSnapshot(next);
       setSettingsEditor(toSettingsEditor(next));
@@ -451,6 +977,17 @@ export function App(): JSX.Element {
     }
   }
 
+  async function updateRepoSyncStrategy(
+    repoId: string,
+    strategy: SyncStrategy | null
+  ): Promise<void> {
+    try {
+      setSnapshot(await getKachinaApi().setRepoSyncStrategy(repoId, strategy));
+    } catch (error) {
+      setMessage(`Sync strategy update failed: ${(error as Error).message}`);
+    }
+  }
+
   async function handlePrimaryRepoAction(): Promise<void> {
     if (!selectedRepo?.status) {
       return;
@@ -476,6 +1013,40 @@ export function App(): JSX.Element {
     }
   }
 
+  async function toggleAmend(): Promise<void> {
+    if (isAmending) {
+      setIsAmending(false);
+      setAmendPushed(false);
+      setCommitMessage(draftBeforeAmend);
+      return;
+    }
+    if (!selectedRepo || !selectedHeadOid) {
+      return;
+    }
+    setDraftBeforeAmend(commitMessage);
+    setIsAmending(true);
+    try {
+      const details = await getKachinaApi().getCommitDetails(selectedRepo.id, selectedHeadOid);
+      setCommitMessage(details.body);
+    } catch (error) {
+      setMessage(`Could not load the last commit message: ${(error as Error).message}`);
+    }
+  }
+
+  async function amendLastCommit(messageOnly: boolean): Promise<void> {
+    if (!selectedRepo || !commitMessage.trim()) {
+      return;
+    }
+    await performAction(
+      getKachinaApi().amendCommit(selectedRepo.id, {
+        message: commitMessage,
+        force: amendPushed,
+        messageOnly
+      }),
+      `${messageOnly ? "Amend message" : "Amend"} · ${selectedRepo.displayName}`
+    );
+  }
+
   async function confirmSimpleCommit(): Promise<void> {
     if (!selectedRepo?.status?.changedFiles.length || isBusy) {
       setIsSimpleCommitDialogOpen(false);
@@ -566,6 +1137,14 @@ export function App(): JSX.Element {
     }
   }
 
+  function openDiff(repoId: string, file: ChangedFile): void {
+    setDiffTarget({
+      repoId,
+      path: file.path,
+      staged: file.isStaged && !file.isUnstaged
+    });
+  }
+
   function handleSettingsToggle(): void {
     setIsSettingsPanelAnimating(true);
     setIsSettingsPanelOpen((current) => !current);
@@ -606,12 +1185,26 @@ export function App(): JSX.Element {
             <h1>Kachina</h1>
           </div>
           <div className="topbar-actions">
-            <button onClick={refreshAll} disabled={isBusy}>
+            <button
+              onClick={refreshAll}
+              disabled={isBusy}
+              title="Re-read every repo's local state without touching the network"
+            >
               Refresh All
             </button>
+            <button onClick={fetchAll} disabled={isBusy} title="Fetch every repo from its remotes">
+              Fetch All
+            </button>
             <button onClick={scanConfiguredRoots} disabled={isBusy}>
               Scan Roots
             </button>
+            <button
+              onClick={fastForwardAll}
+              disabled={isBusy}
+              title="Fast-forward every clean repo that is only behind its upstream"
+            >
+              Fast-forward Behind
+            </button>
           </div>
         </header>
 
@@ -619,6 +1212,41 @@ export function App(): JSX.Element {
           <div className={`message-strip${isPlaceholderMessage ? " placeholder" : ""}`}>
             {statusMessage}
           </div>
+          {followUp?.action === "publish" &&
+            selectedRepo?.id === followUp.repoId &&
+            canPublishBranch(selectedRepo) && (
+              <button
+                type="button"
+                className="follow-up-action"
+                onClick={() => {
+                  const remote = defaultPublishRemote(selectedRepo);
+                  if (remote) {
+                    void performAction(
+                      getKachinaApi().publishBranch(selectedRepo.id, remote),
+                      `Publish to ${remote} · ${selectedRepo.displayName}`
+                    );
+                  }
+                }}
+                disabled={isBusy}
+              >
+                Publish Branch
+              </button>
+            )}
+          {followUp?.action === "sync" && selectedRepo?.id === followUp.repoId && (
+            <button
+              type="button"
+              className="follow-up-action"
+              onClick={() =>
+                void performAction(
+                  getKachinaApi().syncRepo(selectedRepo.id),
+                  `Sync · ${selectedRepo.displayName}`
+                )
+              }
+              disabled={isBusy}
+            >
+              Sync
+            </button>
+          )}
           <button
             type="button"
             className={`settings-toggle${isSettingsPanelOpen ? " pressed" : ""}${
@@ -643,6 +1271,41 @@ export function App(): JSX.Element {
         </div>
         <main className={`layout ${isSettingsPanelOpen ? "settings-open" : "settings-closed"}`}>
           <aside className="repo-panel">
+            <div className="list-controls">
+              {(snapshot?.settings.repoGroups.length ?? 0) > 0 && (
+                <select
+                  value={groupFilter}
+                  onChange={(event) => setGroupFilter(event.target.value)}
+                  aria-label="Show group"
+                >
+                  <option value="all">All groups</option>
+                  {snapshot?.settings.repoGroups.map((group) => (
+                    <option key={group.id} value={group.id}>
+                      {group.name}
+                    </option>
+                  ))}
+                  <option value="ungrouped">Ungrouped</option>
+                </select>
+              )}
+              <select
+                value={snapshot?.settings.repoSortMode ?? "attention"}
+                onChange={(event) =>
+                  void updateRepoList(
+                    getKachinaApi().updateSettings({
+                      repoSortMode: event.target.value as RepoSortMode
+                    })
+                  )
+                }
+                disabled={!snapshot}
+                aria-label="Sort repos"
+              >
+                {Object.entries(REPO_SORT_LABELS).map(([mode, label]) => (
+                  <option key={mode} value={mode}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
             <div className="filter-row">
               <button
                 className={filter === "attention" ? "active" : ""}
@@ -662,6 +1325,25 @@ export function App(): JSX.Element {
               >
                 Ahead
               </button>
+              <button
+                className={filter === "behind" ? "active" : ""}
+                onClick={() => setFilter("behind")}
+              >
+                Behind
+              </button>
+              <button
+                className={filter === "branches" ? "active" : ""}
+                onClick={() => setFilter("branches")}
+              >
+                Branches
+              </button>
+              <button
+                className={filter === "noRemote" ? "active" : ""}
+                onClick={() => setFilter("noRemote")}
+                title="Repos that exist only on this machine"
+              >
+                No Remote
+              </button>
               <button
                 className={filter === "all" ? "active" : ""}
                 onClick={() => setFilter("all")}
@@ -670,37 +1352,69 @@ export function App(): JSX.Element {
               </button>
             </div>
 
-            <div className="repo-list">
-              {filteredRepos.map((repo) => {
-                const isActive = repo.id === selectedRepoId;
-                return (
+            <div className="bulk-bar">
+              <div className="bulk-bar-head">
+                <span>
+                  {checkedRepos.length > 0
+                    ? `${checkedRepos.length} checked`
+                    : `All ${filteredRepos.length} shown`}
+                </span>
+                {checkedRepos.length > 0 && (
+                  <button type="button" className="secondary" onClick={() => setCheckedRepoIds([])}>
+                    Uncheck All
+                  </button>
+                )}
+              </div>
+              <div className="bulk-bar-actions">
+                {BULK_BAR_ACTIONS.map((action) => (
                   <button
-                    key={repo.id}
-                    className={`repo-card ${isActive ? "selected" : ""}`}
-                    onClick={() => setSelectedRepoId(repo.id)}
+                    key={action}
+                    type="button"
+                    onClick={() => void runBulkAction(action, bulkTargets.map((repo) => repo.id))}
+                    disabled={isBusy || bulkTargets.length === 0}
                   >
-                    <div className="repo-card-head">
-                      <strong>{repo.displayName}</strong>
-                      <span className={`state-pill ${repo.status?.needsAttention ? "warn" : "ok"}`}>
-                        {repo.status?.needsAttention ? "Needs Attention" : "Clean"}
-                      </span>
-                    </div>
-                    <p className="repo-meta">{formatEnv(repo)}</p>
-                    <p className="repo-path">{repo.path}</p>
-                    {repo.status && (
-                      <div className="repo-stats">
-                        <span>Branch {repo.status.branch}</span>
-                        <span>Staged {repo.status.stagedCount}</span>
-                        <span>Changed {repo.status.modifiedCount}</span>
-                        <span>Untracked {repo.status.untrackedCount}</span>
-                        <span>
-                          Ahead/Behind {repo.status.ahead}/{repo.status.behind}
-                        </span>
-                      </div>
-                    )}
+                    {BULK_ACTION_LABELS[action]}
                   </button>
-                );
-              })}
+                ))}
+              </div>
+            </div>
+
+            <div className="repo-list">
+              {repoSections === null
+                ? filteredRepos.map((repo) => renderRepoCard(repo, repo.id))
+                : repoSections.map((section) => {
+                    const isCollapsed = collapsedGroupIds.includes(section.id);
+                    const sectionIds = section.repos.map((repo) => repo.id);
+                    const isSectionChecked = sectionIds.every((id) => checkedRepoIds.includes(id));
+                    return (
+                      <section key={section.id} className="repo-group">
+                        <div className="repo-group-head">
+                          <button
+                            type="button"
+                            className="repo-group-toggle"
+                            aria-expanded={!isCollapsed}
+                            onClick={() => toggleGroupCollapsed(section.id)}
+                          >
+                            <span aria-hidden="true">{isCollapsed ? "▸" : "▾"}</span>
+                            {section.name}
+                            <span className="repo-group-count">{section.repos.length}</span>
+                          </button>
+                          <label className="repo-check" title="Include the whole group">
+                            <input
+                              type="checkbox"
+                              checked={isSectionChecked}
+                              onChange={() => setReposChecked(sectionIds, !isSectionChecked)}
+                              aria-label={`Check every repo in ${section.name}`}
+                            />
+                          </label>
+                        </div>
+                        {!isCollapsed &&
+                          section.repos.map((repo) =>
+                            renderRepoCard(repo, `${section.id}:${repo.id}`)
+                          )}
+                      </section>
+                    );
+                  })}
             </div>
           </aside>
 
@@ -714,8 +1428,80 @@ export function App(): JSX.Element {
                     <p className="eyebrow">{formatEnv(selectedRepo)}</p>
                     <h2>{selectedRepo.displayName}</h2>
                     <p className="repo-path">{selectedRepo.path}</p>
+                    {selectedRepo.notes && <p className="repo-notes">{selectedRepo.notes}</p>}
+                    {selectedRepo.watchError && (
+                      <p className="repo-watch-error">
+                        Not watching for changes: {selectedRepo.watchError}
+                      </p>
+                    )}
+                    {snapshot && snapshot.settings.repoGroups.length > 0 && (
+                      <div className="repo-group-picker">
+                        {snapshot.settings.repoGroups.map((group) => {
+                          const isManual = selectedRepo.manualGroupIds.includes(group.id);
+                          const byRule = !isManual && selectedRepo.groupIds.includes(group.id);
+                          return (
+                            <label
+                              key={group.id}
+                              className="checkbox-label"
+                              title={byRule ? "Matched by one of the group's rules" : undefined}
+                            >
+                              <input
+                                type="checkbox"
+                                checked={isManual || byRule}
+                                disabled={isBusy || byRule}
+                                onChange={() => void updateRepoGroups(selectedRepo, group.id)}
+                              />
+                              {group.name}
+                              {byRule && " (rule)"}
+                            </label>
+                          );
+                        })}
+                      </div>
+                    )}
                   </div>
                   <div className="detail-actions">
+                    <button
+                      onClick={() =>
+                        void runRefresh(
+                          `Refresh ${selectedRepo.displayName}`,
+                          () => getKachinaApi().refreshRepo(selectedRepo.id),
+                          `Refreshed ${selectedRepo.displayName}.`
+                        )
+                      }
+                      disabled={isBusy}
+                    >
+                      Refresh
+                    </button>
+                    <button
+                      onClick={() =>
+                        void runRefresh(
+                          `Fetch ${selectedRepo.displayName}`,
+                          () => getKachinaApi().fetchRepo(selectedRepo.id),
+                          `Fetched ${selectedRepo.displayName}.`
+                        )
+                      }
+                      disabled={isBusy}
+                    >
+                      Fetch
+                    </button>
+                    <button
+                      onClick={() =>
+                        performAction(
+                          getKachinaApi().pushRepo(selectedRepo.id),
+                          `Push · ${selectedRepo.displayName}`
+                        )
+                      }
+                      disabled={isBusy}
+                    >
+                      Push
+                    </button>
+                    <button
+                      className="secondary"
+                      aria-pressed={isEditingRepo}
+                      onClick={() => setIsEditingRepo((current) => !current)}
+                    >
+                      Edit Details
+                    </button>
                     <button
                       onClick={() =>
                         performAction(getKachinaApi().openInEditor(selectedRepo.id))
@@ -758,11 +1544,36 @@ export function App(): JSX.Element {
                   </div>
                 </div>
 
-                {selectedRepo.activeOperation && (
+                {isEditingRepo && snapshot && (
+                  <RepoMetadataForm
+                    key={selectedRepo.id}
+                    repo={selectedRepo}
+                    defaultEditorCommand={
+                      selectedRepo.environment.kind === "windows"
+                        ? snapshot.settings.editorCommandWindows
+                        : snapshot.settings.editorCommandWsl
+                    }
+                    defaultRefreshIntervalSeconds={snapshot.settings.refreshIntervalSeconds}
+                    disabled={isBusy}
+                    onSave={(patch) => void updateRepoDetails(selectedRepo.id, patch)}
+                    onCancel={() => setIsEditingRepo(false)}
+                  />
+                )}
+
+                {(selectedRepo.activeOperation || selectedRepo.queuedOperations.length > 0) && (
                   <div className="operation-banner">
                     <span>
-                      In progress: {selectedRepo.activeOperation.name} since{" "}
-                      {new Date(selectedRepo.activeOperation.startedAt).toLocaleTimeString()}
+                      {selectedRepo.activeOperation ? (
+                        <>
+                          In progress: {selectedRepo.activeOperation.name} since{" "}
+                          {new Date(selectedRepo.activeOperation.startedAt).toLocaleTimeString()}
+                        </>
+                      ) : (
+                        formatQueued(selectedRepo)
+                      )}
+                      {selectedRepo.activeOperation && selectedRepo.queuedOperations.length > 0
+                        ? ` · ${selectedRepo.queuedOperations.length} queued`
+                        : ""}
                     </span>
                     <button
                       className="danger"
@@ -784,13 +1595,31 @@ export function App(): JSX.Element {
                       <span>Branch</span>
                       <span>{selectedRepo.status?.branch ?? "Unknown"}</span>
                       <span>Upstream</span>
-                      <span>{selectedRepo.status?.hasUpstream ? "Configured" : "None"}</span>
+                      <span>
+                        {selectedRepo.status?.hasUpstream
+                          ? selectedRepo.status.upstream ?? "Configured"
+                          : "None"}
+                      </span>
+                      <span>HEAD</span>
+                      <span>{selectedRepo.status?.headOid?.slice(0, 10) ?? "No commits"}</span>
                       <span>Ahead/Behind</span>
                       <span>
                         {selectedRepo.status?.ahead ?? 0}/{selectedRepo.status?.behind ?? 0}
+                        {selectedRepo.status && isFetchStale(selectedRepo.status) && " (stale)"}
                       </span>
                       <span>Dirty</span>
                       <span>{selectedRepo.status?.isDirty ? "Yes" : "No"}</span>
+                      <span>Stashes</span>
+                      <span>
+                        {selectedRepo.status?.stashCount ?? 0}
+                        {selectedRepo.status?.hasStaleStashes && " (stale)"}
+                      </span>
+                      <span>Branch Alerts</span>
+                      <span>
+                        {selectedRepo.status?.branchAlerts.length
+                          ? selectedRepo.status.branchAlerts.map(formatBranchAlert).join(", ")
+                          : "None"}
+                      </span>
                       <span>Merge/Rebase</span>
                       <span>
                         {selectedRepo.status?.mergeInProgress ? "Merge " : ""}
@@ -806,6 +1635,18 @@ export function App(): JSX.Element {
                           ? new Date(selectedRepo.status.refreshedAt).toLocaleString()
                           : "Never"}
                       </span>
+                      <span>Last Fetch</span>
+                      <span>
+                        {selectedRepo.status?.lastFetchedAt
+                          ? new Date(selectedRepo.status.lastFetchedAt).toLocaleString()
+                          : "Never"}
+                        {selectedRepo.status?.lastFetchError && (
+                          <span className="fetch-error" title={selectedRepo.status.lastFetchError}>
+                            {" "}
+                            (latest fetch failed)
+                          </span>
+                        )}
+                      </span>
                     </div>
                   </section>
 
@@ -819,19 +1660,126 @@ export function App(): JSX.Element {
                       placeholder="Commit message"
                     />
                     <div className="inline-actions">
+                      {isAmending ? (
+                        <>
+                          <button
+                            onClick={() => void amendLastCommit(false)}
+                            disabled={amendDisabled}
+                            title="Rewrite the last commit with this message and any staged changes"
+                          >
+                            Amend Commit
+                          </button>
+                          <button
+                            className="secondary"
+                            onClick={() => void amendLastCommit(true)}
+                            disabled={amendDisabled}
+                            title="Rewrite only the message; staged changes stay staged"
+                          >
+                            Amend Message Only
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          ref={primaryActionButtonRef}
+                          onClick={() => void handlePrimaryRepoAction()}
+                          disabled={primaryActionDisabled}
+                        >
+                          {primaryActionLabel}
+                        </button>
+                      )}
                       <button
-                        ref={primaryActionButtonRef}
-                        onClick={() => void handlePrimaryRepoAction()}
-                        disabled={primaryActionDisabled}
+                        type="button"
+                        className="secondary"
+                        onClick={() => void toggleAmend()}
+                        disabled={isBusy || !selectedHeadOid}
+                        title="Rewrite the last commit with this message and any staged changes"
                       >
-                        {primaryActionLabel}
+                        {isAmending ? "Cancel Amend" : "Amend"}
                       </button>
                     </div>
+                    {isAmending && isHeadPushed && (
+                      <label className="checkbox-label amend-pushed">
+                        <input
+                          type="checkbox"
+                          checked={amendPushed}
+                          onChange={(event) => setAmendPushed(event.target.checked)}
+                        />
+                        Already pushed to {selectedRepo.status?.upstream ?? "upstream"}; amend
+                        anyway (needs a force push)
+                      </label>
+                    )}
+                    {selectedSyncStrategy && (
+                      <details className="sync-override">
+                        <summary>
+                          Sync: {SYNC_MODE_LABELS[selectedSyncStrategy.mode]}
+                          {selectedRepo.syncStrategy ? " (this repo)" : " (default)"}
+                        </summary>
+                        <label className="checkbox-label">
+                          <input
+                            type="checkbox"
+                            checked={selectedRepo.syncStrategy === null}
+                            onChange={(event) =>
+                              void updateRepoSyncStrategy(
+                                selectedRepo.id,
+                                event.target.checked ? null : selectedSyncStrategy
+                              )
+                            }
+                          />
+                          Use the dashboard default
+                        </label>
+                        <SyncStrategyFields
+                          strategy={selectedSyncStrategy}
+                          disabled={selectedRepo.syncStrategy === null}
+                          onChange={(strategy) =>
+                            void updateRepoSyncStrategy(selectedRepo.id, strategy)
+                          }
+                        />
+                      </details>
+                    )}
                   </section>
                 </div>
 
+                <ConflictPanel repo={selectedRepo} isBusy={isBusy} onAction={performAction} />
+
+                <BranchPanel repo={selectedRepo} isBusy={isBusy} onAction={performAction} />
+
+                <RemotesPanel repo={selectedRepo} isBusy={isBusy} onAction={performAction} />
+
                 <section className="card changed-files-card">
-                  <h3>Changed Files</h3>
+                  <div className="card-head">
+                    <h3>Changed Files</h3>
+                    <div className="card-head-actions">
+                      <button
+                        type="button"
+                        className="secondary"
+                        onClick={() =>
+                          performAction(
+                            getKachinaApi().discardAll(selectedRepo.id),
+                            `Discard all · ${selectedRepo.displayName}`
+                          )
+                        }
+                        disabled={
+                          isBusy ||
+                          !selectedRepo.status?.changedFiles.some((file) => !file.isUntracked)
+                        }
+                      >
+                        Discard All
+                      </button>
+                      <button
+                        type="button"
+                        className="secondary"
+                        onClick={() =>
+                          performAction(
+                            getKachinaApi().cleanUntracked(selectedRepo.id),
+                            `Clean untracked · ${selectedRepo.displayName}`
+                          )
+                        }
+                        disabled={isBusy || !selectedRepo.status?.hasUntracked}
+                      >
+                        Clean Untracked
+                      </button>
+                    </div>
+                  </div>
                   {selectedRepo.status?.changedFiles.length ? (
                     <table className="files-table">
                       <thead>
@@ -844,8 +1792,28 @@ export function App(): JSX.Element {
                       </thead>
                       <tbody>
                         {selectedRepo.status.changedFiles.map((file) => (
-                          <tr key={`${file.path}_${file.indexStatus}_${file.worktreeStatus}`}>
-                            <td>{file.path}</td>
+                          <tr
+                            key={`${file.path}_${file.indexStatus}_${file.worktreeStatus}`}
+                            className={diffFile?.path === file.path ? "selected" : ""}
+                          >
+                            <td>
+                              <button
+                                type="button"
+                                className="file-path-button"
+                                onClick={() => openDiff(selectedRepo.id, file)}
+                              >
+                                {file.originalPath ? (
+                                  <>
+                                    {file.originalPath} → {file.path}
+                                    {file.renameScore !== null && ` (${file.renameScore}%)`}
+                                    {file.copyScore !== null && ` (copy ${file.copyScore}%)`}
+                                  </>
+                                ) : (
+                                  file.path
+                                )}
+                                {file.submodule && " (submodule)"}
+                              </button>
+                            </td>
                             <td>{file.indexStatus}</td>
                             <td>{file.worktreeStatus}</td>
                             <td>
@@ -874,6 +1842,18 @@ export function App(): JSX.Element {
                                   Stage
                                 </button>
                               )}
+                              <button
+                                className="secondary"
+                                onClick={() =>
+                                  performAction(
+                                    getKachinaApi().discardFile(selectedRepo.id, file.path),
+                                    `Discard · ${selectedRepo.displayName}`
+                                  )
+                                }
+                                disabled={isBusy}
+                              >
+                                Discard
+                              </button>
                             </td>
                           </tr>
                         ))}
@@ -884,6 +1864,104 @@ export function App(): JSX.Element {
                   )}
                 </section>
 
+                <StashPanel
+                  repo={selectedRepo}
+                  isBusy={isBusy}
+                  staleStashDays={snapshot?.settings.staleStashDays ?? 0}
+                  onAction={performAction}
+                />
+
+                {selectedRepo.recoveryPoints.length > 0 && (
+                  <section className="card">
+                    <h3>Recently Discarded</h3>
+                    <ul className="recovery-list">
+                      {selectedRepo.recoveryPoints.map((point) => (
+                        <li key={point.id}>
+                          <div>
+                            <strong>{point.label}</strong>
+                            <span>
+                              {new Date(point.createdAt).toLocaleString()} · kept until{" "}
+                              {new Date(point.expiresAt).toLocaleDateString()}
+                            </span>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() =>
+                              performAction(
+                                getKachinaApi().restoreRecoveryPoint(selectedRepo.id, point.id),
+                                `Restore · ${selectedRepo.displayName}`
+                              )
+                            }
+                            disabled={isBusy}
+                          >
+                            Restore
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </section>
+                )}
+
+                {diffTarget && diffFile && (
+                  <section className="card diff-card">
+                    <div className="card-head">
+                      <h3>{diffFile.path}</h3>
+                      <div className="card-head-actions">
+                        {diffFile.isStaged && diffFile.isUnstaged && (
+                          <>
+                            <button
+                              type="button"
+                              className={diffTarget.staged ? "secondary" : ""}
+                              onClick={() => setDiffTarget({ ...diffTarget, staged: false })}
+                            >
+                              Working Tree
+                            </button>
+                            <button
+                              type="button"
+                              className={diffTarget.staged ? "" : "secondary"}
+                              onClick={() => setDiffTarget({ ...diffTarget, staged: true })}
+                            >
+                              Staged
+                            </button>
+                          </>
+                        )}
+                        <button
+                          type="button"
+                          className="secondary"
+                          onClick={() => setDiffTarget(null)}
+                        >
+                          Close
+                        </button>
+                      </div>
+                    </div>
+                    <DiffViewer
+                      diff={fileDiff}
+                      isLoading={isDiffLoading}
+                      error={diffError}
+                      selectionAction={diffTarget.staged ? "Unstage" : "Stage"}
+                      isBusy={isBusy}
+                      onApplySelection={(hunkIndex, hunkHeader, lineIndexes) => {
+                        const selection = {
+                          path: diffTarget.path,
+                          hunkIndex,
+                          hunkHeader,
+                          lineIndexes
+                        };
+                        performAction(
+                          diffTarget.staged
+                            ? getKachinaApi().unstageSelection(selectedRepo.id, selection)
+                            : getKachinaApi().stageSelection(selectedRepo.id, selection),
+                          `Partial ${diffTarget.staged ? "unstage" : "stage"} · ${
+                            selectedRepo.displayName
+                          }`
+                        );
+                      }}
+                    />
+                  </section>
+                )}
+
+                <HistoryPanel repo={selectedRepo} />
+
                 {selectedRepo.lastErrorTranscript && (
                   <details className="card">
                     <summary>Last Error Transcript</summary>
@@ -961,6 +2039,95 @@ export function App(): JSX.Element {
                       }
                     />
                   </label>
+                  <div className="settings-field">
+                    Default sync strategy
+                    <SyncStrategyFields
+                      strategy={settingsEditor.syncStrategy}
+                      onChange={(syncStrategy) =>
+                        setSettingsEditor((current) =>
+                          current ? { ...current, syncStrategy } : current
+                        )
+                      }
+                    />
+                  </div>
+                  <div className="settings-field">
+                    Repo groups (rules: `path:`, `env:` or `remote:` plus text, one per line)
+                    <RepoGroupsFields
+                      groups={settingsEditor.repoGroups}
+                      onChange={(repoGroups) =>
+                        setSettingsEditor((current) =>
+                          current ? { ...current, repoGroups } : current
+                        )
+                      }
+                    />
+                  </div>
+                  <label className="checkbox-label">
+                    <input
+                      type="checkbox"
+                      checked={settingsEditor.fastForwardAfterRefresh}
+                      onChange={(event) =>
+                        setSettingsEditor((current) =>
+                          current
+                            ? { ...current, fastForwardAfterRefresh: event.target.checked }
+                            : current
+                        )
+                      }
+                    />
+                    Fast-forward clean repos that are only behind after each auto-refresh
+                  </label>
+                  <label className="checkbox-label">
+                    <input
+                      type="checkbox"
+                      checked={settingsEditor.watchForChanges}
+                      onChange={(event) =>
+                        setSettingsEditor((current) =>
+                          current ? { ...current, watchForChanges: event.target.checked } : current
+                        )
+                      }
+                    />
+                    Refresh repos as soon as their files change
+                  </label>
+                  <label>
+                    Flag stashes older than (days, 0 to disable)
+                    <input
+                      type="number"
+                      min={0}
+                      value={settingsEditor.staleStashDaysText}
+                      onChange={(event) =>
+                        setSettingsEditor((current) =>
+                          current ? { ...current, staleStashDaysText: event.target.value } : current
+                        )
+                      }
+                    />
+                  </label>
+                  <label>
+                    Operations running at once
+                    <input
+                      type="number"
+                      min={1}
+                      value={settingsEditor.maxConcurrentText}
+                      onChange={(event) =>
+                        setSettingsEditor((current) =>
+                          current ? { ...current, maxConcurrentText: event.target.value } : current
+                        )
+                      }
+                    />
+                  </label>
+                  <label>
+                    Operations running at once per environment (empty for no limit)
+                    <input
+                      type="number"
+                      min={1}
+                      value={settingsEditor.maxConcurrentPerEnvironmentText}
+                      onChange={(event) =>
+                        setSettingsEditor((current) =>
+                          current
+                            ? { ...current, maxConcurrentPerEnvironmentText: event.target.value }
+                            : current
+                        )
+                      }
+                    />
+                  </label>
                   <button type="submit" disabled={isBusy}>
                     Save Settings
                   </button>
@@ -1005,8 +2172,11 @@ export function App(): JSX.Element {
         <ActivityPanel
           activity={activity}
           isCollapsed={isActivityPanelCollapsed}
+          canRetry={!isBusy}
           onToggleCollapsed={() => setIsActivityPanelCollapsed((current) => !current)}
           onDismiss={() => setActivity(null)}
+          onCancelBulk={(groupId) => void cancelBulkAction(groupId)}
+          onRetryBulk={(bulk, repoIds) => void runBulkAction(bulk.action, repoIds)}
         />
       )}
 
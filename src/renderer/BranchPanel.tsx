@@ -0,0 +1,291 @@
+import { FormEvent, useEffect, useMemo, useState } from "react";
+import type {
+  BranchInfo,
+  DirtyCheckoutStrategy,
+  RepoActionResult,
+  RepoRecord
+} from "../shared/types";
+import { getKachinaApi } from "./browser-api";
+
+interface BranchPanelProps {
+  repo: RepoRecord;
+  isBusy: boolean;
+  onAction: (action: Promise<RepoActionResult>, activityLabel: string) => void;
+}
+
+type PendingSwitch =
+  | { kind: "checkout"; branch: string }
+  | { kind: "create"; name: string; startPoint: string | null };
+
+function describeTracking(branch: BranchInfo): string {
+  if (branch.kind === "remote") {
+    return "Remote branch";
+  }
+  if (!branch.upstream) {
+    return "No upstream";
+  }
+  if (branch.upstreamGone) {
+    return `${branch.upstream} (gone)`;
+  }
+  return `${branch.upstream} · ${branch.ahead} ahead / ${branch.behind} behind`;
+}
+
+export function BranchPanel({ repo, isBusy, onAction }: BranchPanelProps): JSX.Element {
+  const [branches, setBranches] = useState<BranchInfo[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [filterText, setFilterText] = useState("");
+  const [newBranchName, setNewBranchName] = useState("");
+  const [startPoint, setStartPoint] = useState("");
+  const [checkoutNew, setCheckoutNew] = useState(true);
+  const [pendingSwitch, setPendingSwitch] = useState<PendingSwitch | null>(null);
+  const [renaming, setRenaming] = useState<{ branch: string; value: string } | null>(null);
+  const [armedDelete, setArmedDelete] = useState<string | null>(null);
+  const refreshedAt = repo.status?.refreshedAt;
+  const pendingTarget =
+    pendingSwitch?.kind === "checkout" ? pendingSwitch.branch : pendingSwitch?.name;
+
+  useEffect(() => {
+    setPendingSwitch(null);
+    setRenaming(null);
+    setArmedDelete(null);
+    setStartPoint("");
+  }, [repo.id]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getKachinaApi()
+      .listBranches(repo.id)
+      .then((next) => {
+        if (!cancelled) {
+          setBranches(next);
+          setLoadError(null);
+        }
+      })
+      .catch((error: Error) => {
+        if (!cancelled) {
+          setBranches([]);
+          setLoadError(error.message);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [repo.id, refreshedAt]);
+
+  const visibleBranches = useMemo(() => {
+    const needle = filterText.trim().toLowerCase();
+    return branches.filter((branch) => !needle || branch.name.toLowerCase().includes(needle));
+  }, [branches, filterText]);
+
+  function runSwitch(target: PendingSwitch, dirtyStrategy: DirtyCheckoutStrategy): void {
+    setPendingSwitch(null);
+    if (target.kind === "checkout") {
+      onAction(
+        getKachinaApi().checkoutBranch(repo.id, { branch: target.branch, dirtyStrategy }),
+        `Checkout ${target.branch} · ${repo.displayName}`
+      );
+      return;
+    }
+    onAction(
+      getKachinaApi().createBranch(repo.id, {
+        name: target.name,
+        startPoint: target.startPoint,
+        checkout: true,
+        dirtyStrategy
+      }),
+      `Create ${target.name} · ${repo.displayName}`
+    );
+  }
+
+  /** Switching with uncommitted changes asks first instead of letting git refuse. */
+  function requestSwitch(target: PendingSwitch): void {
+    if (repo.status?.isDirty) {
+      setPendingSwitch(target);
+      return;
+    }
+    runSwitch(target, "abort");
+  }
+
+  function submitNewBranch(event: FormEvent<HTMLFormElement>): void {
+    event.preventDefault();
+    const name = newBranchName.trim();
+    if (!name) {
+      return;
+    }
+    setNewBranchName("");
+    if (checkoutNew) {
+      requestSwitch({ kind: "create", name, startPoint: startPoint || null });
+      return;
+    }
+    onAction(
+      getKachinaApi().createBranch(repo.id, {
+        name,
+        startPoint: startPoint || null,
+        checkout: false,
+        dirtyStrategy: "abort"
+      }),
+      `Create ${name} · ${repo.displayName}`
+    );
+  }
+
+  function deleteBranch(branch: BranchInfo): void {
+    const force = branch.isMerged === false;
+    if (force && armedDelete !== branch.name) {
+      setArmedDelete(branch.name);
+      return;
+    }
+    setArmedDelete(null);
+    onAction(
+      getKachinaApi().deleteBranch(repo.id, branch.name, force),
+      `Delete ${branch.name} · ${repo.displayName}`
+    );
+  }
+
+  function submitRename(event: FormEvent<HTMLFormElement>): void {
+    event.preventDefault();
+    if (!renaming || !renaming.value.trim()) {
+      return;
+    }
+    onAction(
+      getKachinaApi().renameBranch(repo.id, renaming.branch, renaming.value),
+      `Rename ${renaming.branch} · ${repo.displayName}`
+    );
+    setRenaming(null);
+  }
+
+  return (
+    <section className="card branch-card">
+      <div className="card-head">
+        <h3>Branches</h3>
+        <input
+          className="branch-filter"
+          value={filterText}
+          onChange={(event) => setFilterText(event.target.value)}
+          placeholder="Filter branches"
+        />
+      </div>
+
+      {pendingSwitch && (
+        <div className="dirty-choice" role="alert">
+          <p>
+            {repo.displayName} has uncommitted changes. What should happen to them when switching
+            to <strong>{pendingTarget}</strong>?
+          </p>
+          <div className="card-head-actions">
+            <button type="button" onClick={() => runSwitch(pendingSwitch, "stash")}>
+              Stash &amp; Switch
+            </button>
+            <button type="button" onClick={() => runSwitch(pendingSwitch, "carry")}>
+              Carry Over
+            </button>
+            <button type="button" className="secondary" onClick={() => setPendingSwitch(null)}>
+              Abort
+            </button>
+          </div>
+        </div>
+      )}
+
+      <form className="branch-create-form" onSubmit={submitNewBranch}>
+        <input
+          value={newBranchName}
+          onChange={(event) => setNewBranchName(event.target.value)}
+          placeholder="New branch name"
+        />
+        <select value={startPoint} onChange={(event) => setStartPoint(event.target.value)}>
+          <option value="">From HEAD</option>
+          {branches.map((branch) => (
+            <option key={branch.fullRef} value={branch.name}>
+              From {branch.name}
+            </option>
+          ))}
+        </select>
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={checkoutNew}
+            onChange={(event) => setCheckoutNew(event.target.checked)}
+          />
+          Switch to it
+        </label>
+        <button type="submit" disabled={isBusy || !newBranchName.trim()}>
+          Create
+        </button>
+      </form>
+
+      {loadError && <p className="diff-message error">{loadError}</p>}
+      <ul className="branch-list">
+        {visibleBranches.map((branch) => (
+          <li key={branch.fullRef} className={branch.isCurrent ? "current" : ""}>
+            {renaming?.branch === branch.name ? (
+              <form className="branch-rename-form" onSubmit={submitRename}>
+                <input
+                  value={renaming.value}
+                  onChange={(event) => setRenaming({ ...renaming, value: event.target.value })}
+                  autoFocus
+                />
+                <button type="submit" disabled={isBusy || !renaming.value.trim()}>
+                  Save
+                </button>
+                <button type="button" className="secondary" onClick={() => setRenaming(null)}>
+                  Cancel
+                </button>
+              </form>
+            ) : (
+              <>
+                <div className="branch-summary">
+                  <strong>
+                    {branch.name}
+                    {branch.isCurrent && " (current)"}
+                  </strong>
+                  <span>{describeTracking(branch)}</span>
+                  <span>
+                    {branch.lastCommitAt
+                      ? new Date(branch.lastCommitAt).toLocaleString()
+                      : "No commits"}
+                    {branch.lastCommitSubject && ` · ${branch.lastCommitSubject}`}
+                  </span>
+                </div>
+                <div className="branch-actions">
+                  {!branch.isCurrent && (
+                    <button
+                      type="button"
+                      onClick={() => requestSwitch({ kind: "checkout", branch: branch.name })}
+                      disabled={isBusy}
+                    >
+                      Checkout
+                    </button>
+                  )}
+                  {branch.kind === "local" && (
+                    <button
+                      type="button"
+                      className="secondary"
+                      onClick={() => setRenaming({ branch: branch.name, value: branch.name })}
+                      disabled={isBusy}
+                    >
+                      Rename
+                    </button>
+                  )}
+                  {branch.kind === "local" && !branch.isCurrent && (
+                    <button
+                      type="button"
+                      className="danger"
+                      onClick={() => deleteBranch(branch)}
+                      disabled={isBusy}
+                      title={
+                        branch.isMerged === false
+                          ? "Not merged into HEAD; deleting discards its unique commits."
+                          : undefined
+                      }
+                    >
+                      {armedDelete === branch.name ? "Delete Unmerged?" : "Delete"}
+                    </button>
+                  )}
+                </div>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react";
+import type {
+  ConflictResolution,
+  ConflictVersions,
+  MergeRebaseAction,
+  RepoActionResult,
+  RepoRecord
+} from "../shared/types";
+import { getKachinaApi } from "./browser-api";
+
+interface ConflictPanelProps {
+  repo: RepoRecord;
+  isBusy: boolean;
+  onAction: (action: Promise<RepoActionResult>, activityLabel: string) => void;
+}
+
+interface ConflictView {
+  path: string;
+  versions: ConflictVersions | null;
+  error: string | null;
+}
+
+function ConflictPane({ title, content }: { title: string; content: string | null }): JSX.Element {
+  return (
+    <div className="conflict-pane">
+      <strong>{title}</strong>
+      <pre>{content ?? "(no version on this side)"}</pre>
+    </div>
+  );
+}
+
+export function ConflictPanel({ repo, isBusy, onAction }: ConflictPanelProps): JSX.Element | null {
+  const [view, setView] = useState<ConflictView | null>(null);
+  const status = repo.status;
+  const conflictedFiles = status?.changedFiles.filter((file) => file.isConflicted) ?? [];
+  const kind = status?.rebaseInProgress ? "rebase" : status?.mergeInProgress ? "merge" : null;
+
+  useEffect(() => {
+    setView(null);
+  }, [repo.id]);
+
+  useEffect(() => {
+    if (view && !conflictedFiles.some((file) => file.path === view.path)) {
+      setView(null);
+    }
+  }, [view, conflictedFiles]);
+
+  if (!kind && conflictedFiles.length === 0) {
+    return null;
+  }
+  const title =
+    kind === "rebase" ? "Rebase in Progress" : kind ? "Merge in Progress" : "Conflicts";
+
+  function runStep(action: MergeRebaseAction): void {
+    onAction(
+      getKachinaApi().runMergeRebaseAction(repo.id, action),
+      `${action[0].toUpperCase()}${action.slice(1)} ${kind ?? "operation"} · ${repo.displayName}`
+    );
+  }
+
+  function resolve(filePath: string, resolution: ConflictResolution): void {
+    onAction(
+      getKachinaApi().resolveConflict(repo.id, filePath, resolution),
+      `Resolve ${filePath} · ${repo.displayName}`
+    );
+  }
+
+  function toggleView(filePath: string): void {
+    if (view?.path === filePath) {
+      setView(null);
+      return;
+    }
+    setView({ path: filePath, versions: null, error: null });
+    getKachinaApi()
+      .getConflictVersions(repo.id, filePath)
+      .then((versions) =>
+        setView((current) => (current?.path === filePath ? { ...current, versions } : current))
+      )
+      .catch((error: Error) =>
+        setView((current) =>
+          current?.path === filePath ? { ...current, error: error.message } : current
+        )
+      );
+  }
+
+  return (
+    <section className="card conflict-card">
+      <div className="card-head">
+        <h3>{title}</h3>
+        {kind && (
+          <div className="card-head-actions">
+            <button
+              type="button"
+              onClick={() => runStep("continue")}
+              disabled={isBusy || conflictedFiles.length > 0}
+            >
+              Continue
+            </button>
+            {kind === "rebase" && (
+              <button
+                type="button"
+                className="secondary"
+                onClick={() => runStep("skip")}
+                disabled={isBusy}
+              >
+                Skip Commit
+              </button>
+            )}
+            <button
+              type="button"
+              className="danger"
+              onClick={() => runStep("abort")}
+              disabled={isBusy}
+            >
+              Abort
+            </button>
+          </div>
+        )}
+      </div>
+      {kind === "rebase" && (
+        <p className="conflict-hint">
+          During a rebase, “ours” is the branch being rebased onto and “theirs” is your commit
+          being replayed.
+        </p>
+      )}
+
+      {conflictedFiles.length === 0 ? (
+        <p>No conflicted files left. Continue when you are ready.</p>
+      ) : (
+        <ul className="conflict-list">
+          {conflictedFiles.map((file) => (
+            <li key={file.path}>
+              <div className="conflict-row">
+                <span className="conflict-path">
+                  {file.path} <span>({file.indexStatus}{file.worktreeStatus})</span>
+                </span>
+                <div className="conflict-actions">
+                  <button type="button" className="secondary" onClick={() => toggleView(file.path)}>
+                    {view?.path === file.path ? "Hide" : "Compare"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => resolve(file.path, "ours")}
+                    disabled={isBusy}
+                  >
+                    Take Ours
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => resolve(file.path, "theirs")}
+                    disabled={isBusy}
+                  >
+                    Take Theirs
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => resolve(file.path, "resolved")}
+                    disabled={isBusy}
+                    title="Stage the file as it is in the working tree"
+                  >
+                    Mark Resolved
+                  </button>
+                </div>
+              </div>
+              {view?.path === file.path && (
+                <div className="conflict-view">
+                  {view.error ? (
+                    <p className="diff-message error">{view.error}</p>
+                  ) : !view.versions ? (
+                    <p className="diff-message">Loading versions…</p>
+                  ) : view.versions.isBinary ? (
+                    <p className="diff-message">Binary file; take one side instead.</p>
+                  ) : (
+                    <div className="conflict-panes">
+                      <ConflictPane title="Ours" content={view.versions.ours} />
+                      <ConflictPane title="Base" content={view.versions.base} />
+                      <ConflictPane title="Theirs" content={view.versions.theirs} />
+                    </div>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
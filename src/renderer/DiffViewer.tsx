@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+import type { DiffLine, FileDiff } from "../shared/types";
+
+interface DiffViewerProps {
+  diff: FileDiff | null;
+  isLoading: boolean;
+  error: string | null;
+  /** "Stage" or "Unstage"; hunk and line actions are hidden when omitted. */
+  selectionAction?: string;
+  isBusy?: boolean;
+  onApplySelection?: (hunkIndex: number, hunkHeader: string, lineIndexes: number[] | null) => void;
+}
+
+function lineMarker(line: DiffLine): string {
+  if (line.kind === "add") {
+    return "+";
+  }
+  if (line.kind === "delete") {
+    return "-";
+  }
+  return " ";
+}
+
+function describeDiff(diff: FileDiff): string {
+  switch (diff.status) {
+    case "untracked":
+      return "Untracked file, shown as a full addition";
+    case "added":
+      return "New file";
+    case "deleted":
+      return "Deleted file";
+    case "renamed":
+      return `Renamed from ${diff.originalPath ?? "unknown"}`;
+    case "copied":
+      return `Copied from ${diff.originalPath ?? "unknown"}`;
+    default:
+      return "Modified file";
+  }
+}
+
+/** Mirrors the backend rules: renames, deletions and new files in the index move as whole files. */
+function supportsSelection(diff: FileDiff, selectionAction: string): boolean {
+  if (diff.isBinary) {
+    return false;
+  }
+  return diff.status === "modified" || (diff.status === "untracked" && selectionAction === "Stage");
+}
+
+export function DiffViewer({
+  diff,
+  isLoading,
+  error,
+  selectionAction,
+  isBusy = false,
+  onApplySelection
+}: DiffViewerProps): JSX.Element {
+  const [selectedLines, setSelectedLines] = useState<Record<number, number[]>>({});
+
+  useEffect(() => {
+    setSelectedLines({});
+  }, [diff]);
+
+  function toggleLine(hunkIndex: number, lineIndex: number): void {
+    setSelectedLines((current) => {
+      const lines = current[hunkIndex] ?? [];
+      const next = lines.includes(lineIndex)
+        ? lines.filter((index) => index !== lineIndex)
+        : [...lines, lineIndex].sort((left, right) => left - right);
+      return { ...current, [hunkIndex]: next };
+    });
+  }
+
+  if (error) {
+    return <p className="diff-message error">{error}</p>;
+  }
+  if (!diff) {
+    return (
+      <p className="diff-message">
+        {isLoading ? "Loading diff…" : "Select a file to see its diff."}
+      </p>
+    );
+  }
+
+  const canSelect =
+    Boolean(selectionAction && onApplySelection) && supportsSelection(diff, selectionAction ?? "");
+
+  return (
+    <div className={`diff-viewer${isLoading ? " loading" : ""}`}>
+      <p className="diff-summary">
+        {describeDiff(diff)}
+        {canSelect && " · click added or removed lines to select them"}
+      </p>
+      {diff.isBinary ? (
+        <p className="diff-message">Binary file; no text diff to show.</p>
+      ) : diff.hunks.length === 0 ? (
+        <p className="diff-message">No textual changes (mode or metadata change only).</p>
+      ) : (
+        diff.hunks.map((hunk, hunkIndex) => {
+          const selected = selectedLines[hunkIndex] ?? [];
+          return (
+            <table className="diff-hunk" key={`${hunkIndex}_${hunk.header}`}>
+              <thead>
+                <tr>
+                  <th colSpan={4}>
+                    <div className="diff-hunk-head">
+                      <span>{hunk.header}</span>
+                      {canSelect && onApplySelection && (
+                        <span className="diff-hunk-actions">
+                          {selected.length > 0 && (
+                            <button
+                              type="button"
+                              className="secondary"
+                              onClick={() =>
+                                setSelectedLines((current) => ({ ...current, [hunkIndex]: [] }))
+                              }
+                            >
+                              Clear
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            disabled={isBusy || isLoading}
+                            onClick={() =>
+                              onApplySelection(
+                                hunkIndex,
+                                hunk.header,
+                                selected.length > 0 ? selected : null
+                              )
+                            }
+                          >
+                            {selected.length === 0
+                              ? `${selectionAction} Hunk`
+                              : `${selectionAction} ${selected.length} ${
+                                  selected.length === 1 ? "Line" : "Lines"
+                                }`}
+                          </button>
+                        </span>
+                      )}
+                    </div>
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {hunk.lines.map((line, lineIndex) => {
+                  const isSelectable = canSelect && line.kind !== "context";
+                  const classNames = ["diff-line", line.kind];
+                  if (isSelectable) {
+                    classNames.push("selectable");
+                  }
+                  if (selected.includes(lineIndex)) {
+                    classNames.push("selected");
+                  }
+                  return (
+                    <tr
+                      className={classNames.join(" ")}
+                      key={lineIndex}
+                      onClick={isSelectable ? () => toggleLine(hunkIndex, lineIndex) : undefined}
+                    >
+                      <td className="diff-line-number">{line.oldLineNumber ?? ""}</td>
+                      <td className="diff-line-number">{line.newLineNumber ?? ""}</td>
+                      <td className="diff-line-marker">{lineMarker(line)}</td>
+                      <td className="diff-line-content">
+                        {line.content}
+                        {line.noNewlineAtEnd && (
+                          <span className="diff-no-newline"> ⏎ no newline at end of file</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+import { FormEvent, useEffect, useMemo, useState } from "react";
+import type { CommitDetails, CommitSummary, RepoRecord } from "../shared/types";
+import { getKachinaApi } from "./browser-api";
+import { layoutGraph, type GraphRow } from "./commit-graph";
+import { DiffViewer } from "./DiffViewer";
+
+interface HistoryPanelProps {
+  repo: RepoRecord;
+}
+
+interface HistoryFilter {
+  ref: string;
+  path: string;
+}
+
+interface SelectedCommit {
+  oid: string;
+  details: CommitDetails | null;
+  error: string | null;
+}
+
+const PAGE_SIZE = 50;
+const LANE_WIDTH = 12;
+const ROW_HEIGHT = 40;
+const LANE_COLORS = ["#bd6640", "#13524a", "#7d2f1d", "#3f6fb5", "#8a5ab3", "#b08a13"];
+
+function laneX(lane: number): number {
+  return lane * LANE_WIDTH + LANE_WIDTH / 2;
+}
+
+function laneColor(lane: number): string {
+  return LANE_COLORS[lane % LANE_COLORS.length];
+}
+
+function GraphCell({ row, width }: { row: GraphRow; width: number }): JSX.Element {
+  const middle = ROW_HEIGHT / 2;
+  const commitX = laneX(row.lane);
+  const segments: JSX.Element[] = [];
+
+  row.incoming.forEach((oid, lane) => {
+    if (oid === null) {
+      return;
+    }
+    // Lanes waiting for this commit bend into its dot; the rest pass straight through.
+    const targetX = oid === row.oid ? commitX : laneX(lane);
+    segments.push(
+      <line
+        key={`in-${lane}`}
+        x1={laneX(lane)}
+        y1={0}
+        x2={targetX}
+        y2={middle}
+        stroke={laneColor(lane)}
+      />
+    );
+  });
+
+  row.outgoing.forEach((oid, lane) => {
+    if (oid === null) {
+      return;
+    }
+    if (row.parentLanes.includes(lane)) {
+      segments.push(
+        <line
+          key={`parent-${lane}`}
+          x1={commitX}
+          y1={middle}
+          x2={laneX(lane)}
+          y2={ROW_HEIGHT}
+          stroke={laneColor(lane)}
+        />
+      );
+    }
+    if (lane !== row.lane && row.incoming[lane] === oid) {
+      segments.push(
+        <line
+          key={`out-${lane}`}
+          x1={laneX(lane)}
+          y1={middle}
+          x2={laneX(lane)}
+          y2={ROW_HEIGHT}
+          stroke={laneColor(lane)}
+        />
+      );
+    }
+  });
+
+  return (
+    <svg className="history-graph" width={width} height={ROW_HEIGHT} aria-hidden="true">
+      {segments}
+      <circle cx={commitX} cy={middle} r={4} fill={laneColor(row.lane)} />
+    </svg>
+  );
+}
+
+export function HistoryPanel({ repo }: HistoryPanelProps): JSX.Element {
+  const [filter, setFilter] = useState<HistoryFilter>({ ref: "", path: "" });
+  const [draftFilter, setDraftFilter] = useState<HistoryFilter>({ ref: "", path: "" });
+  const [commits, setCommits] = useState<CommitSummary[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<SelectedCommit | null>(null);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  // Pushing moves remote refs without touching HEAD, so the ahead count is part of the key.
+  const historyKey = `${repo.status?.headOid ?? ""}:${repo.status?.ahead ?? 0}`;
+
+  const rows = useMemo(() => layoutGraph(commits), [commits]);
+  const graphWidth =
+    Math.max(1, ...rows.map((row) => Math.max(row.incoming.length, row.outgoing.length))) *
+    LANE_WIDTH;
+
+  useEffect(() => {
+    setFilter({ ref: "", path: "" });
+    setDraftFilter({ ref: "", path: "" });
+    setSelected(null);
+  }, [repo.id]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    getKachinaApi()
+      .getLog(repo.id, {
+        ref: filter.ref || null,
+        limit: PAGE_SIZE,
+        cursor: null,
+        path: filter.path || null
+      })
+      .then((page) => {
+        if (!cancelled) {
+          setCommits(page.commits);
+          setNextCursor(page.nextCursor);
+          setLoadError(null);
+        }
+      })
+      .catch((error: Error) => {
+        if (!cancelled) {
+          setCommits([]);
+          setNextCursor(null);
+          setLoadError(error.message);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [repo.id, historyKey, filter]);
+
+  function loadMore(): void {
+    if (!nextCursor) {
+      return;
+    }
+    setIsLoading(true);
+    getKachinaApi()
+      .getLog(repo.id, {
+        ref: filter.ref || null,
+        limit: PAGE_SIZE,
+        cursor: nextCursor,
+        path: filter.path || null
+      })
+      .then((page) => {
+        setCommits((current) => [...current, ...page.commits]);
+        setNextCursor(page.nextCursor);
+      })
+      .catch((error: Error) => setLoadError(error.message))
+      .finally(() => setIsLoading(false));
+  }
+
+  function selectCommit(oid: string): void {
+    if (selected?.oid === oid) {
+      setSelected(null);
+      return;
+    }
+    setSelected({ oid, details: null, error: null });
+    setSelectedPath(null);
+    getKachinaApi()
+      .getCommitDetails(repo.id, oid)
+      .then((details) => {
+        setSelected((current) => (current?.oid === oid ? { ...current, details } : current));
+        setSelectedPath(details.files[0]?.path ?? null);
+      })
+      .catch((error: Error) =>
+        setSelected((current) =>
+          current?.oid === oid ? { ...current, error: error.message } : current
+        )
+      );
+  }
+
+  function submitFilter(event: FormEvent<HTMLFormElement>): void {
+    event.preventDefault();
+    setSelected(null);
+    setFilter({ ref: draftFilter.ref.trim(), path: draftFilter.path.trim() });
+  }
+
+  const selectedDiff =
+    selected?.details?.files.find((file) => file.path === selectedPath) ?? null;
+
+  return (
+    <section className="card history-card">
+      <h3>History</h3>
+      <form className="history-filter" onSubmit={submitFilter}>
+        <input
+          value={draftFilter.ref}
+          onChange={(event) => setDraftFilter({ ...draftFilter, ref: event.target.value })}
+          placeholder="Branch, tag or commit (HEAD)"
+        />
+        <input
+          value={draftFilter.path}
+          onChange={(event) => setDraftFilter({ ...draftFilter, path: event.target.value })}
+          placeholder="Limit to path"
+        />
+        <button type="submit" className="secondary">
+          Show
+        </button>
+      </form>
+
+      {loadError && <p className="diff-message error">{loadError}</p>}
+      {!loadError && !isLoading && commits.length === 0 && <p>No commits.</p>}
+      <ul className="history-list">
+        {commits.map((commit, index) => (
+          <li key={commit.oid} className={selected?.oid === commit.oid ? "selected" : ""}>
+            <button
+              type="button"
+              className="history-row"
+              onClick={() => selectCommit(commit.oid)}
+            >
+              <GraphCell row={rows[index]} width={graphWidth} />
+              <span className="history-summary">
+                <strong>
+                  {commit.refs.map((ref) => (
+                    <span key={ref} className="history-ref">
+                      {ref}
+                    </span>
+                  ))}
+                  {commit.subject}
+                </strong>
+                <span>
+                  {commit.oid.slice(0, 10)} · {commit.authorName} ·{" "}
+                  {new Date(commit.authoredAt).toLocaleString()}
+                </span>
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+      {nextCursor && (
+        <button type="button" className="secondary" onClick={loadMore} disabled={isLoading}>
+          {isLoading ? "Loading…" : "Load More"}
+        </button>
+      )}
+
+      {selected && (
+        <div className="history-details">
+          {selected.error ? (
+            <p className="diff-message error">{selected.error}</p>
+          ) : !selected.details ? (
+            <p className="diff-message">Loading commit…</p>
+          ) : (
+            <>
+              <pre className="history-message">{selected.details.body}</pre>
+              {selected.details.files.length === 0 ? (
+                <p className="diff-message">No file changes.</p>
+              ) : (
+                <div className="history-files">
+                  {selected.details.files.map((file) => (
+                    <button
+                      key={file.path}
+                      type="button"
+                      className={file.path === selectedPath ? "" : "secondary"}
+                      onClick={() => setSelectedPath(file.path)}
+                    >
+                      {file.path}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {selectedDiff && (
+                <DiffViewer diff={selectedDiff} isLoading={false} error={null} />
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
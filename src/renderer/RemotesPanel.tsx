@@ -0,0 +1,279 @@
+import { FormEvent, useEffect, useRef, useState } from "react";
+import type { RepoActionResult, RepoRecord, RepoRemote } from "../shared/types";
+import { getKachinaApi } from "./browser-api";
+
+interface RemotesPanelProps {
+  repo: RepoRecord;
+  isBusy: boolean;
+  onAction: (action: Promise<RepoActionResult>, activityLabel: string) => void;
+}
+
+type RemoteEdit =
+  | { kind: "rename"; remote: string; value: string }
+  | { kind: "url"; remote: string; value: string; push: boolean };
+
+interface RemoteTest {
+  state: "testing" | "reachable" | "unreachable";
+  message: string;
+}
+
+/** `origin` when the repo has one, so publishing follows the usual clone layout. */
+export function defaultPublishRemote(repo: RepoRecord): string | null {
+  const origin = repo.remotes.find((remote) => remote.name === "origin");
+  return (origin ?? repo.remotes[0])?.name ?? null;
+}
+
+/** A checked-out branch with commits but no upstream, and somewhere to push it. */
+export function canPublishBranch(repo: RepoRecord): boolean {
+  const status = repo.status;
+  return Boolean(
+    status &&
+      !status.hasUpstream &&
+      !status.isDetached &&
+      status.headOid &&
+      repo.remotes.length > 0
+  );
+}
+
+export function RemotesPanel({ repo, isBusy, onAction }: RemotesPanelProps): JSX.Element {
+  const [newName, setNewName] = useState("");
+  const [newUrl, setNewUrl] = useState("");
+  const [editing, setEditing] = useState<RemoteEdit | null>(null);
+  const [armedRemove, setArmedRemove] = useState<string | null>(null);
+  const [tests, setTests] = useState<Record<string, RemoteTest>>({});
+  const [publishRemote, setPublishRemote] = useState(defaultPublishRemote(repo) ?? "");
+  const shownRepoId = useRef(repo.id);
+  shownRepoId.current = repo.id;
+
+  useEffect(() => {
+    setEditing(null);
+    setArmedRemove(null);
+    setTests({});
+    setNewName(repo.remotes.length === 0 ? "origin" : "");
+    setNewUrl("");
+    setPublishRemote(defaultPublishRemote(repo) ?? "");
+  }, [repo.id]);
+
+  // Keep the choice valid when the chosen remote is renamed or removed.
+  useEffect(() => {
+    if (!repo.remotes.some((remote) => remote.name === publishRemote)) {
+      setPublishRemote(defaultPublishRemote(repo) ?? "");
+    }
+  }, [repo.remotes, publishRemote]);
+
+  function submitNewRemote(event: FormEvent<HTMLFormElement>): void {
+    event.preventDefault();
+    if (!newName.trim() || !newUrl.trim()) {
+      return;
+    }
+    onAction(
+      getKachinaApi().addRemote(repo.id, newName, newUrl),
+      `Add remote ${newName.trim()} · ${repo.displayName}`
+    );
+    setNewName("");
+    setNewUrl("");
+  }
+
+  function submitEdit(event: FormEvent<HTMLFormElement>): void {
+    event.preventDefault();
+    if (!editing || !editing.value.trim()) {
+      return;
+    }
+    const verb = editing.kind === "rename" ? "Rename" : "Set URL of";
+    onAction(
+      editing.kind === "rename"
+        ? getKachinaApi().renameRemote(repo.id, editing.remote, editing.value)
+        : getKachinaApi().setRemoteUrl(repo.id, editing.remote, editing.value, editing.push),
+      `${verb} ${editing.remote} · ${repo.displayName}`
+    );
+    setEditing(null);
+  }
+
+  function submitPublish(event: FormEvent<HTMLFormElement>): void {
+    event.preventDefault();
+    if (!publishRemote || !repo.status) {
+      return;
+    }
+    onAction(
+      getKachinaApi().publishBranch(repo.id, publishRemote),
+      `Publish ${repo.status.branch} to ${publishRemote} · ${repo.displayName}`
+    );
+  }
+
+  function removeRemote(remote: RepoRemote): void {
+    if (armedRemove !== remote.name) {
+      setArmedRemove(remote.name);
+      return;
+    }
+    setArmedRemove(null);
+    onAction(
+      getKachinaApi().removeRemote(repo.id, remote.name),
+      `Remove remote ${remote.name} · ${repo.displayName}`
+    );
+  }
+
+  async function testRemote(remote: RepoRemote): Promise<void> {
+    const repoId = repo.id;
+    setTests((current) => ({
+      ...current,
+      [remote.name]: { state: "testing", message: "Testing…" }
+    }));
+    let test: RemoteTest;
+    try {
+      const result = await getKachinaApi().testRemote(repoId, remote.name);
+      test = { state: result.ok ? "reachable" : "unreachable", message: result.message };
+    } catch (error) {
+      test = { state: "unreachable", message: (error as Error).message };
+    }
+    // A result for a repo that is no longer shown would land on the wrong remote list.
+    if (shownRepoId.current === repoId) {
+      setTests((current) => ({ ...current, [remote.name]: test }));
+    }
+  }
+
+  return (
+    <section className="card remotes-card">
+      <div className="card-head">
+        <h3>Remotes</h3>
+      </div>
+
+      {repo.remotes.length === 0 && (
+        <p className="no-remote-warning" role="alert">
+          {repo.displayName} has no remote, so it only exists on this machine. Add one to back it
+          up.
+        </p>
+      )}
+
+      {canPublishBranch(repo) && repo.status && (
+        <form className="publish-branch-form" onSubmit={submitPublish}>
+          <span>
+            <strong>{repo.status.branch}</strong> has no upstream yet.
+          </span>
+          <select
+            value={publishRemote}
+            onChange={(event) => setPublishRemote(event.target.value)}
+            aria-label="Remote to publish to"
+          >
+            {repo.remotes.map((remote) => (
+              <option key={remote.name} value={remote.name}>
+                {remote.name}
+              </option>
+            ))}
+          </select>
+          <button type="submit" disabled={isBusy || !publishRemote}>
+            Publish Branch
+          </button>
+        </form>
+      )}
+
+      <ul className="remote-list">
+        {repo.remotes.map((remote) => {
+          const test = tests[remote.name];
+          return (
+            <li key={remote.name}>
+              {editing?.remote === remote.name ? (
+                <form className="remote-edit-form" onSubmit={submitEdit}>
+                  <input
+                    value={editing.value}
+                    onChange={(event) => setEditing({ ...editing, value: event.target.value })}
+                    placeholder={editing.kind === "rename" ? "New name" : "URL"}
+                    autoFocus
+                  />
+                  {editing.kind === "url" && (
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={editing.push}
+                        onChange={(event) =>
+                          setEditing({
+                            ...editing,
+                            push: event.target.checked,
+                            value: event.target.checked ? remote.pushUrl : remote.fetchUrl
+                          })
+                        }
+                      />
+                      Push URL only
+                    </label>
+                  )}
+                  <button type="submit" disabled={isBusy || !editing.value.trim()}>
+                    Save
+                  </button>
+                  <button type="button" className="secondary" onClick={() => setEditing(null)}>
+                    Cancel
+                  </button>
+                </form>
+              ) : (
+                <>
+                  <div className="remote-summary">
+                    <strong>{remote.name}</strong>
+                    <span>{remote.fetchUrl}</span>
+                    {remote.pushUrl !== remote.fetchUrl && <span>Push: {remote.pushUrl}</span>}
+                    {test && <span className={`remote-test ${test.state}`}>{test.message}</span>}
+                  </div>
+                  <div className="branch-actions">
+                    <button
+                      type="button"
+                      onClick={() => void testRemote(remote)}
+                      disabled={test?.state === "testing"}
+                    >
+                      Test
+                    </button>
+                    <button
+                      type="button"
+                      className="secondary"
+                      onClick={() =>
+                        setEditing({
+                          kind: "url",
+                          remote: remote.name,
+                          value: remote.fetchUrl,
+                          push: false
+                        })
+                      }
+                      disabled={isBusy}
+                    >
+                      Set URL
+                    </button>
+                    <button
+                      type="button"
+                      className="secondary"
+                      onClick={() =>
+                        setEditing({ kind: "rename", remote: remote.name, value: remote.name })
+                      }
+                      disabled={isBusy}
+                    >
+                      Rename
+                    </button>
+                    <button
+                      type="button"
+                      className="danger"
+                      onClick={() => removeRemote(remote)}
+                      disabled={isBusy}
+                    >
+                      {armedRemove === remote.name ? "Remove?" : "Remove"}
+                    </button>
+                  </div>
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <form className="remote-add-form" onSubmit={submitNewRemote}>
+        <input
+          value={newName}
+          onChange={(event) => setNewName(event.target.value)}
+          placeholder="Remote name"
+        />
+        <input
+          value={newUrl}
+          onChange={(event) => setNewUrl(event.target.value)}
+          placeholder="URL"
+        />
+        <button type="submit" disabled={isBusy || !newName.trim() || !newUrl.trim()}>
+          Add Remote
+        </button>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,96 @@
+import type { RepoGroup, RepoGroupRule, RepoGroupRuleField } from "../shared/types";
+
+/** A group as edited in settings, with its rules kept as text until saved. */
+export interface RepoGroupDraft {
+  /** Empty for groups the service has not created yet. */
+  id: string;
+  name: string;
+  rulesText: string;
+}
+
+interface RepoGroupsFieldsProps {
+  groups: RepoGroupDraft[];
+  onChange: (groups: RepoGroupDraft[]) => void;
+}
+
+const RULE_FIELDS: Record<string, RepoGroupRuleField> = {
+  path: "path",
+  env: "environment",
+  environment: "environment",
+  remote: "remoteUrl",
+  remoteurl: "remoteUrl"
+};
+
+const RULE_LABELS: Record<RepoGroupRuleField, string> = {
+  path: "path",
+  environment: "env",
+  remoteUrl: "remote"
+};
+
+/** Reads one `field: pattern` rule per line; lines without a known field are dropped. */
+function parseRules(text: string): RepoGroupRule[] {
+  return text.split(/\r?\n/).flatMap((line) => {
+    const separator = line.indexOf(":");
+    const field = RULE_FIELDS[line.slice(0, separator).trim().toLowerCase()];
+    const pattern = line.slice(separator + 1).trim();
+    return separator > 0 && field && pattern ? [{ field, pattern }] : [];
+  });
+}
+
+export function toGroupDrafts(groups: RepoGroup[]): RepoGroupDraft[] {
+  return groups.map((group) => ({
+    id: group.id,
+    name: group.name,
+    rulesText: group.rules.map((rule) => `${RULE_LABELS[rule.field]}: ${rule.pattern}`).join("\n")
+  }));
+}
+
+export function fromGroupDrafts(drafts: RepoGroupDraft[]): RepoGroup[] {
+  return drafts.map((draft) => ({
+    id: draft.id,
+    name: draft.name.trim(),
+    rules: parseRules(draft.rulesText)
+  }));
+}
+
+export function RepoGroupsFields({ groups, onChange }: RepoGroupsFieldsProps): JSX.Element {
+  function updateGroup(index: number, patch: Partial<RepoGroupDraft>): void {
+    onChange(groups.map((group, current) => (current === index ? { ...group, ...patch } : group)));
+  }
+
+  return (
+    <div className="repo-groups-fields">
+      {groups.map((group, index) => (
+        <div key={group.id || `new-${index}`} className="repo-group-draft">
+          <div className="repo-group-draft-head">
+            <input
+              value={group.name}
+              onChange={(event) => updateGroup(index, { name: event.target.value })}
+              placeholder="Group name"
+            />
+            <button
+              type="button"
+              className="secondary"
+              onClick={() => onChange(groups.filter((_, current) => current !== index))}
+            >
+              Remove
+            </button>
+          </div>
+          <textarea
+            value={group.rulesText}
+            onChange={(event) => updateGroup(index, { rulesText: event.target.value })}
+            placeholder={"path: C:\\work\nenv: wsl:Ubuntu\nremote: github.com/acme"}
+            rows={3}
+          />
+        </div>
+      ))}
+      <button
+        type="button"
+        className="secondary"
+        onClick={() => onChange([...groups, { id: "", name: "", rulesText: "" }])}
+      >
+        Add Group
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { FormEvent, useState } from "react";
+import type { RepoFetchPolicy, RepoPatch, RepoRecord } from "../shared/types";
+
+interface RepoMetadataFormProps {
+  repo: RepoRecord;
+  /** Shown as placeholders so an empty override reads as "use the default". */
+  defaultEditorCommand: string;
+  defaultRefreshIntervalSeconds: number;
+  disabled?: boolean;
+  onSave: (patch: RepoPatch) => void;
+  onCancel: () => void;
+}
+
+const FETCH_POLICY_LABELS: Record<RepoFetchPolicy, string> = {
+  default: "Follow the global setting",
+  always: "Fetch on every refresh",
+  interval: "Fetch every few minutes",
+  never: "Never fetch on refresh"
+};
+
+const DEFAULT_ACCENT = "#3f6fb5";
+
+export function RepoMetadataForm({
+  repo,
+  defaultEditorCommand,
+  defaultRefreshIntervalSeconds,
+  disabled = false,
+  onSave,
+  onCancel
+}: RepoMetadataFormProps): JSX.Element {
+  const [displayName, setDisplayName] = useState(repo.displayName);
+  const [notes, setNotes] = useState(repo.notes);
+  const [accentColor, setAccentColor] = useState(repo.accentColor);
+  const [editorCommand, setEditorCommand] = useState(repo.editorCommand ?? "");
+  const [fetchPolicy, setFetchPolicy] = useState(repo.fetchPolicy);
+  const [fetchIntervalMinutes, setFetchIntervalMinutes] = useState(repo.fetchIntervalMinutes);
+  const [refreshInterval, setRefreshInterval] = useState(
+    repo.refreshIntervalSeconds === null ? "" : String(repo.refreshIntervalSeconds)
+  );
+  const [autoRefresh, setAutoRefresh] = useState(repo.autoRefresh);
+
+  function submit(event: FormEvent<HTMLFormElement>): void {
+    event.preventDefault();
+    onSave({
+      displayName,
+      notes,
+      accentColor,
+      editorCommand,
+      fetchPolicy,
+      fetchIntervalMinutes,
+      refreshIntervalSeconds: refreshInterval.trim() === "" ? null : Number(refreshInterval),
+      autoRefresh
+    });
+  }
+
+  return (
+    <form className="repo-metadata-form" onSubmit={submit}>
+      <label>
+        Display name
+        <input
+          value={displayName}
+          onChange={(event) => setDisplayName(event.target.value)}
+          required
+        />
+      </label>
+      <div className="repo-accent-field">
+        <label>
+          Accent
+          <input
+            type="color"
+            value={accentColor ?? DEFAULT_ACCENT}
+            disabled={accentColor === null}
+            onChange={(event) => setAccentColor(event.target.value)}
+          />
+        </label>
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={accentColor === null}
+            onChange={(event) => setAccentColor(event.target.checked ? null : DEFAULT_ACCENT)}
+          />
+          No accent
+        </label>
+      </div>
+      <label>
+        Editor command
+        <input
+          value={editorCommand}
+          onChange={(event) => setEditorCommand(event.target.value)}
+          placeholder={defaultEditorCommand}
+        />
+      </label>
+      <label>
+        Fetch policy
+        <select
+          value={fetchPolicy}
+          onChange={(event) => setFetchPolicy(event.target.value as RepoFetchPolicy)}
+        >
+          {Object.entries(FETCH_POLICY_LABELS).map(([policy, label]) => (
+            <option key={policy} value={policy}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {fetchPolicy === "interval" && (
+        <label>
+          Fetch every (minutes)
+          <input
+            type="number"
+            min={1}
+            value={fetchIntervalMinutes}
+            onChange={(event) => setFetchIntervalMinutes(Number(event.target.value))}
+          />
+        </label>
+      )}
+      <label>
+        Refresh every (seconds)
+        <input
+          type="number"
+          min={30}
+          value={refreshInterval}
+          onChange={(event) => setRefreshInterval(event.target.value)}
+          placeholder={String(defaultRefreshIntervalSeconds)}
+          disabled={!autoRefresh}
+        />
+      </label>
+      <label className="checkbox-label">
+        <input
+          type="checkbox"
+          checked={autoRefresh}
+          onChange={(event) => setAutoRefresh(event.target.checked)}
+        />
+        Include in auto-refresh
+      </label>
+      <label className="repo-notes-field">
+        Notes
+        <textarea value={notes} onChange={(event) => setNotes(event.target.value)} rows={3} />
+      </label>
+      <div className="repo-metadata-actions">
+        <button type="submit" disabled={disabled}>
+          Save Details
+        </button>
+        <button type="button" className="secondary" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
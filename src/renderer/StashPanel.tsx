@@ -0,0 +1,197 @@
+import { FormEvent, useEffect, useState } from "react";
+import type { RepoActionResult, RepoRecord, StashFileStat } from "../shared/types";
+import { getKachinaApi } from "./browser-api";
+
+interface StashPanelProps {
+  repo: RepoRecord;
+  isBusy: boolean;
+  staleStashDays: number;
+  onAction: (action: Promise<RepoActionResult>, activityLabel: string) => void;
+}
+
+interface StashPreview {
+  oid: string;
+  files: StashFileStat[] | null;
+  error: string | null;
+}
+
+function formatCount(value: number | null, prefix: string): string {
+  return value === null ? "bin" : `${prefix}${value}`;
+}
+
+export function StashPanel({
+  repo,
+  isBusy,
+  staleStashDays,
+  onAction
+}: StashPanelProps): JSX.Element {
+  const [message, setMessage] = useState("");
+  const [includeUntracked, setIncludeUntracked] = useState(true);
+  const [preview, setPreview] = useState<StashPreview | null>(null);
+  const stashes = repo.status?.stashes ?? [];
+  const staleBefore = Date.now() - staleStashDays * 24 * 60 * 60 * 1_000;
+
+  useEffect(() => {
+    setPreview(null);
+  }, [repo.id]);
+
+  useEffect(() => {
+    if (preview && !stashes.some((stash) => stash.oid === preview.oid)) {
+      setPreview(null);
+    }
+  }, [preview, stashes]);
+
+  function togglePreview(oid: string): void {
+    if (preview?.oid === oid) {
+      setPreview(null);
+      return;
+    }
+    setPreview({ oid, files: null, error: null });
+    getKachinaApi()
+      .getStashFiles(repo.id, oid)
+      .then((files) =>
+        setPreview((current) => (current?.oid === oid ? { ...current, files } : current))
+      )
+      .catch((error: Error) =>
+        setPreview((current) =>
+          current?.oid === oid ? { ...current, error: error.message } : current
+        )
+      );
+  }
+
+  function submitStash(event: FormEvent<HTMLFormElement>): void {
+    event.preventDefault();
+    onAction(
+      getKachinaApi().createStash(repo.id, { message, includeUntracked }),
+      `Stash · ${repo.displayName}`
+    );
+    setMessage("");
+  }
+
+  return (
+    <section className="card stash-card">
+      <h3>Stashes</h3>
+      <form className="stash-form" onSubmit={submitStash}>
+        <input
+          value={message}
+          onChange={(event) => setMessage(event.target.value)}
+          placeholder="Stash message (optional)"
+        />
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={includeUntracked}
+            onChange={(event) => setIncludeUntracked(event.target.checked)}
+          />
+          Include untracked
+        </label>
+        <button type="submit" disabled={isBusy || !repo.status?.isDirty}>
+          Stash Changes
+        </button>
+      </form>
+
+      {stashes.length === 0 ? (
+        <p>No stashes.</p>
+      ) : (
+        <ul className="stash-list">
+          {stashes.map((stash) => {
+            const isStale =
+              staleStashDays > 0 && Date.parse(stash.createdAt) < staleBefore;
+            const isOpen = preview?.oid === stash.oid;
+            return (
+              <li key={stash.oid}>
+                <div className="stash-row">
+                  <div className="stash-summary">
+                    <strong>{stash.message || `stash@{${stash.index}}`}</strong>
+                    <span>
+                      stash@{`{${stash.index}}`} · {stash.branch ?? "detached"} ·{" "}
+                      {new Date(stash.createdAt).toLocaleString()}
+                      {stash.hasUntracked && " · with untracked"}
+                    </span>
+                  </div>
+                  {isStale && <span className="state-pill warn">Stale</span>}
+                  <div className="stash-actions">
+                    <button
+                      type="button"
+                      className="secondary"
+                      onClick={() => togglePreview(stash.oid)}
+                    >
+                      {isOpen ? "Hide" : "Files"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        onAction(
+                          getKachinaApi().applyStash(repo.id, stash.oid),
+                          `Apply stash · ${repo.displayName}`
+                        )
+                      }
+                      disabled={isBusy}
+                    >
+                      Apply
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        onAction(
+                          getKachinaApi().popStash(repo.id, stash.oid),
+                          `Pop stash · ${repo.displayName}`
+                        )
+                      }
+                      disabled={isBusy}
+                    >
+                      Pop
+                    </button>
+                    <button
+                      type="button"
+                      className="danger"
+                      onClick={() =>
+                        onAction(
+                          getKachinaApi().dropStash(repo.id, stash.oid),
+                          `Drop stash · ${repo.displayName}`
+                        )
+                      }
+                      disabled={isBusy}
+                    >
+                      Drop
+                    </button>
+                  </div>
+                </div>
+                {isOpen && (
+                  <div className="stash-files">
+                    {preview.error ? (
+                      <p className="diff-message error">{preview.error}</p>
+                    ) : !preview.files ? (
+                      <p className="diff-message">Loading files…</p>
+                    ) : preview.files.length === 0 ? (
+                      <p className="diff-message">No file changes.</p>
+                    ) : (
+                      <table className="files-table">
+                        <tbody>
+                          {preview.files.map((file) => (
+                            <tr key={`${file.untracked ? "u" : "t"}_${file.path}`}>
+                              <td>
+                                {file.path}
+                                {file.untracked && " (untracked)"}
+                              </td>
+                              <td className="stash-stat add">
+                                {formatCount(file.additions, "+")}
+                              </td>
+                              <td className="stash-stat delete">
+                                {formatCount(file.deletions, "-")}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,55 @@
+import type { SyncMode, SyncStrategy } from "../shared/types";
+
+interface SyncStrategyFieldsProps {
+  strategy: SyncStrategy;
+  disabled?: boolean;
+  onChange: (strategy: SyncStrategy) => void;
+}
+
+export const SYNC_MODE_LABELS: Record<SyncMode, string> = {
+  rebase: "Pull with rebase",
+  merge: "Pull with merge",
+  "ff-only": "Fast-forward only",
+  "fetch-only": "Fetch only"
+};
+
+export function SyncStrategyFields({
+  strategy,
+  disabled = false,
+  onChange
+}: SyncStrategyFieldsProps): JSX.Element {
+  const pulls = strategy.mode !== "fetch-only";
+  return (
+    <div className="sync-strategy-fields">
+      <select
+        value={strategy.mode}
+        disabled={disabled}
+        onChange={(event) => onChange({ ...strategy, mode: event.target.value as SyncMode })}
+      >
+        {Object.entries(SYNC_MODE_LABELS).map(([mode, label]) => (
+          <option key={mode} value={mode}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <label className="checkbox-label">
+        <input
+          type="checkbox"
+          checked={strategy.autostash}
+          disabled={disabled || !pulls}
+          onChange={(event) => onChange({ ...strategy, autostash: event.target.checked })}
+        />
+        Autostash when dirty
+      </label>
+      <label className="checkbox-label">
+        <input
+          type="checkbox"
+          checked={strategy.push}
+          disabled={disabled || !pulls}
+          onChange={(event) => onChange({ ...strategy, push: event.target.checked })}
+        />
+        Push after pulling
+      </label>
+    </div>
+  );
+}
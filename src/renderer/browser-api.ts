@@ -1,4 +1,9 @@
-import type { KachinaApi } from "../shared/types";
+import type {
+  DashboardSnapshot,
+  KachinaApi,
+  KachinaEvent,
+  KachinaEventListener
+} from "../shared/types";
 
 interface ApiErrorResponse {
   error?: string;
@@ -29,22 +34,84 @@ async function invoke<T>(method: keyof KachinaApi, args: unknown[] = []): Promis
   return (await response.json()) as T;
 }
 
+function subscribeToEvents(listener: KachinaEventListener): () => void {
+  const eventSource = new EventSource("/api/events");
+  eventSource.addEventListener("kachina", (event) => {
+    listener(JSON.parse((event as MessageEvent<string>).data) as KachinaEvent);
+  });
+  // Events published while the stream was disconnected are lost, so resync on every (re)connect.
+  eventSource.addEventListener("open", () => {
+    void invoke<DashboardSnapshot>("getSnapshot")
+      .then((snapshot) => listener({ type: "snapshot", snapshot }))
+      .catch(() => {
+        // The stream reconnects on its own; the next open event retries the resync.
+      });
+  });
+  return () => {
+    eventSource.close();
+  };
+}
+
 export const browserApi: KachinaApi = {
   getSnapshot: () => invoke("getSnapshot"),
   refreshAll: () => invoke("refreshAll"),
+  fetchAll: () => invoke("fetchAll"),
+  refreshRepo: (repoId) => invoke("refreshRepo", [repoId]),
+  fetchRepo: (repoId) => invoke("fetchRepo", [repoId]),
   scanConfiguredRoots: () => invoke("scanConfiguredRoots"),
   addRepo: (input) => invoke("addRepo", [input]),
   removeRepo: (repoId) => invoke("removeRepo", [repoId]),
+  setRepoSyncStrategy: (repoId, strategy) => invoke("setRepoSyncStrategy", [repoId, strategy]),
+  updateRepo: (repoId, patch) => invoke("updateRepo", [repoId, patch]),
+  setRepoGroups: (repoId, groupIds) => invoke("setRepoGroups", [repoId, groupIds]),
+  setRepoPinned: (repoId, pinned) => invoke("setRepoPinned", [repoId, pinned]),
+  reorderRepos: (repoIds) => invoke("reorderRepos", [repoIds]),
   updateSettings: (input) => invoke("updateSettings", [input]),
   stageFile: (repoId, filePath) => invoke("stageFile", [repoId, filePath]),
   unstageFile: (repoId, filePath) => invoke("unstageFile", [repoId, filePath]),
+  getFileDiff: (repoId, filePath, options) =>
+    invoke("getFileDiff", [repoId, filePath, options]),
+  stageSelection: (repoId, selection) => invoke("stageSelection", [repoId, selection]),
+  unstageSelection: (repoId, selection) => invoke("unstageSelection", [repoId, selection]),
+  discardFile: (repoId, filePath) => invoke("discardFile", [repoId, filePath]),
+  discardAll: (repoId) => invoke("discardAll", [repoId]),
+  cleanUntracked: (repoId) => invoke("cleanUntracked", [repoId]),
+  restoreRecoveryPoint: (repoId, recoveryPointId) =>
+    invoke("restoreRecoveryPoint", [repoId, recoveryPointId]),
+  getStashFiles: (repoId, stashOid) => invoke("getStashFiles", [repoId, stashOid]),
+  createStash: (repoId, input) => invoke("createStash", [repoId, input]),
+  applyStash: (repoId, stashOid) => invoke("applyStash", [repoId, stashOid]),
+  popStash: (repoId, stashOid) => invoke("popStash", [repoId, stashOid]),
+  dropStash: (repoId, stashOid) => invoke("dropStash", [repoId, stashOid]),
+  listBranches: (repoId) => invoke("listBranches", [repoId]),
+  checkoutBranch: (repoId, input) => invoke("checkoutBranch", [repoId, input]),
+  createBranch: (repoId, input) => invoke("createBranch", [repoId, input]),
+  renameBranch: (repoId, branch, newName) => invoke("renameBranch", [repoId, branch, newName]),
+  deleteBranch: (repoId, branch, force) => invoke("deleteBranch", [repoId, branch, force]),
+  addRemote: (repoId, name, url) => invoke("addRemote", [repoId, name, url]),
+  removeRemote: (repoId, name) => invoke("removeRemote", [repoId, name]),
+  renameRemote: (repoId, name, newName) => invoke("renameRemote", [repoId, name, newName]),
+  setRemoteUrl: (repoId, name, url, push) => invoke("setRemoteUrl", [repoId, name, url, push]),
+  testRemote: (repoId, name) => invoke("testRemote", [repoId, name]),
+  getLog: (repoId, query) => invoke("getLog", [repoId, query]),
+  getCommitDetails: (repoId, oid) => invoke("getCommitDetails", [repoId, oid]),
   commitRepo: (repoId, message) => invoke("commitRepo", [repoId, message]),
+  amendCommit: (repoId, input) => invoke("amendCommit", [repoId, input]),
+  runMergeRebaseAction: (repoId, action) => invoke("runMergeRebaseAction", [repoId, action]),
+  getConflictVersions: (repoId, filePath) => invoke("getConflictVersions", [repoId, filePath]),
+  resolveConflict: (repoId, filePath, resolution) =>
+    invoke("resolveConflict", [repoId, filePath, resolution]),
   pushRepo: (repoId) => invoke("pushRepo", [repoId]),
+  publishBranch: (repoId, remote) => invoke("publishBranch", [repoId, remote]),
   syncRepo: (repoId) => invoke("syncRepo", [repoId]),
   openInEditor: (repoId) => invoke("openInEditor", [repoId]),
   openInFileManager: (repoId) => invoke("openInFileManager", [repoId]),
   openInTerminal: (repoId) => invoke("openInTerminal", [repoId]),
-  cancelRepoOperation: (repoId) => invoke("cancelRepoOperation", [repoId])
+  cancelRepoOperation: (repoId) => invoke("cancelRepoOperation", [repoId]),
+  runBulkAction: (input) => invoke("runBulkAction", [input]),
+  fastForwardAll: (groupId) => invoke("fastForwardAll", [groupId]),
+  cancelBulkAction: (groupId) => invoke("cancelBulkAction", [groupId]),
+  onEvent: (listener) => subscribeToEvents(listener)
 };
 
 export function getKachinaApi(): KachinaApi {
@@ -0,0 +1,70 @@
+import type { CommitSummary } from "../shared/types";
+
+/** Where one commit sits in the graph column and how its lanes connect to the next row. */
+export interface GraphRow {
+  oid: string;
+  lane: number;
+  /** Oid each lane is waiting for as it enters the row from above; `null` for empty lanes. */
+  incoming: (string | null)[];
+  /** Oid each lane is waiting for as it leaves the row below. */
+  outgoing: (string | null)[];
+  parentLanes: number[];
+}
+
+function trimLanes(lanes: (string | null)[]): (string | null)[] {
+  const trimmed = [...lanes];
+  while (trimmed.length > 0 && trimmed[trimmed.length - 1] === null) {
+    trimmed.pop();
+  }
+  return trimmed;
+}
+
+/**
+ * Assigns lanes to commits listed newest first in topological order. Each lane tracks the
+ * next commit it expects; a commit takes the lane waiting for it, hands that lane to its first
+ * parent and opens lanes for any other parents.
+ */
+export function layoutGraph(commits: CommitSummary[]): GraphRow[] {
+  let lanes: (string | null)[] = [];
+  return commits.map((commit) => {
+    // A branch tip opens a new lane, so nothing enters it from above.
+    const incoming = [...lanes];
+    let lane = lanes.indexOf(commit.oid);
+    if (lane === -1) {
+      lane = lanes.indexOf(null);
+      if (lane === -1) {
+        lane = lanes.length;
+      }
+    }
+
+    // Other lanes waiting for this commit end here.
+    lanes = lanes.map((oid, index) => (oid === commit.oid && index !== lane ? null : oid));
+    lanes[lane] = commit.parents[0] ?? null;
+
+    const parentLanes: number[] = [];
+    commit.parents.forEach((parent, index) => {
+      if (index === 0) {
+        parentLanes.push(lane);
+        return;
+      }
+      let parentLane = lanes.indexOf(parent);
+      if (parentLane === -1) {
+        parentLane = lanes.indexOf(null);
+        if (parentLane === -1) {
+          parentLane = lanes.length;
+        }
+        lanes[parentLane] = parent;
+      }
+      parentLanes.push(parentLane);
+    });
+
+    lanes = trimLanes(lanes);
+    return {
+      oid: commit.oid,
+      lane,
+      incoming: trimLanes(incoming),
+      outgoing: [...lanes],
+      parentLanes
+    };
+  });
+}
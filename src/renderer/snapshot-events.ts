@@ -0,0 +1,87 @@
+import type { DashboardSnapshot, KachinaEvent, RepoRecord } from "../shared/types";
+
+function updateRepo(
+  snapshot: DashboardSnapshot,
+  repoId: string,
+  update: (repo: RepoRecord) => RepoRecord
+): DashboardSnapshot {
+  let changed = false;
+  const repos = snapshot.repos.map((repo) => {
+    if (repo.id !== repoId) {
+      return repo;
+    }
+    changed = true;
+    return update(repo);
+  });
+  return changed ? { ...snapshot, repos } : snapshot;
+}
+
+export function applyKachinaEvent(
+  snapshot: DashboardSnapshot | null,
+  event: KachinaEvent
+): DashboardSnapshot | null {
+  if (event.type === "snapshot") {
+    return event.snapshot;
+  }
+  if (!snapshot) {
+    return snapshot;
+  }
+
+  switch (event.type) {
+    case "repoUpdated":
+      return updateRepo(snapshot, event.repo.id, () => event.repo);
+    case "operationStarted":
+      return updateRepo(snapshot, event.repoId, (repo) => ({
+        ...repo,
+        activeOperation: event.operation
+      }));
+    case "operationFinished":
+      return updateRepo(snapshot, event.repoId, (repo) =>
+        repo.activeOperation?.id === event.operationId
+          ? { ...repo, activeOperation: null }
+          : repo
+      );
+    case "queueChanged":
+      return {
+        ...snapshot,
+        repos: snapshot.repos.map((repo) => {
+          const queuedOperations = event.queued[repo.id] ?? [];
+          return repo.queuedOperations.length === 0 && queuedOperations.length === 0
+            ? repo
+            : { ...repo, queuedOperations };
+        })
+      };
+    case "commandProgress":
+      return updateRepo(snapshot, event.repoId, (repo) =>
+        repo.activeOperation?.id === event.operationId
+          ? {
+              ...repo,
+              activeOperation: { ...repo.activeOperation, currentCommand: event.command }
+            }
+          : repo
+      );
+    case "commandOutput":
+      return updateRepo(snapshot, event.repoId, (repo) => {
+        const operation = repo.activeOperation;
+        const command = operation?.currentCommand;
+        if (operation?.id !== event.operationId || command?.startedAt !== event.startedAt) {
+          return repo;
+        }
+        return {
+          ...repo,
+          activeOperation: {
+            ...operation,
+            currentCommand: {
+              ...command,
+              stdout: command.stdout + event.stdout,
+              stderr: command.stderr + event.stderr
+            }
+          }
+        };
+      });
+    case "settingsChanged":
+      return { ...snapshot, settings: event.settings };
+    default:
+      return snapshot;
+  }
+}
@@ -17,6 +17,43 @@ export interface WslScanRoot {
   path: string;
 }
 
+/** How `syncRepo` brings in upstream changes; `fetch-only` never touches the working tree. */
+export type SyncMode = "rebase" | "merge" | "ff-only" | "fetch-only";
+
+export interface SyncStrategy {
+  mode: SyncMode;
+  /** Stash uncommitted changes around the pull and restore them afterwards. */
+  autostash: boolean;
+  /** Push after pulling; ignored by `fetch-only`. */
+  push: boolean;
+}
+
+export type RepoGroupRuleField = "path" | "environment" | "remoteUrl";
+
+/**
+ * Matches repos whose path or remote URL contains `pattern` (case-insensitive), or whose
+ * environment starts with it (`windows`, `wsl` or `wsl:<distro>`).
+ */
+export interface RepoGroupRule {
+  field: RepoGroupRuleField;
+  pattern: string;
+}
+
+export interface RepoGroup {
+  id: string;
+  name: string;
+  rules: RepoGroupRule[];
+}
+
+/** `custom` follows the order repos were dragged into; pinned repos always come first. */
+export type RepoSortMode =
+  | "attention"
+  | "custom"
+  | "lastActivity"
+  | "lastCommit"
+  | "changedFiles"
+  | "environment";
+
 export interface DashboardSettings {
   windowsRoots: string[];
   wslRoots: WslScanRoot[];
@@ -26,10 +63,29 @@ export interface DashboardSettings {
   editorCommandWsl: string;
   refreshIntervalSeconds: number;
   fetchOnRefresh: boolean;
+  /**
+   * Refreshes a repo as soon as its files change. Watched repos only keep their timed refresh
+   * while it also fetches.
+   */
+  watchForChanges: boolean;
+  maxConcurrentOperations: number;
+  maxConcurrentOperationsPerEnvironment: number | null;
+  /** Stashes older than this many days flag their repo as needing attention; 0 disables. */
+  staleStashDays: number;
+  syncStrategy: SyncStrategy;
+  /** Fast-forwards every clean repo that is only behind after each auto-refresh. */
+  fastForwardAfterRefresh: boolean;
+  repoGroups: RepoGroup[];
+  repoSortMode: RepoSortMode;
+  /** Pinned repos, in the order they are listed at the top. */
+  pinnedRepoIds: string[];
+  customRepoOrder: string[];
 }
 
 export interface CommandTranscript {
   command: string;
+  /** Context Kachina attaches to the command, such as the sync strategy that ran it. */
+  note?: string;
   exitCode: number | null;
   stdout: string;
   stderr: string;
@@ -52,14 +108,223 @@ export interface ActiveOperation {
   currentCommand: ActiveCommand | null;
 }
 
+export type OperationPriority = "interactive" | "background";
+
+export interface QueuedOperation {
+  id: string;
+  name: string;
+  priority: OperationPriority;
+  enqueuedAt: string;
+  /** Operations it waits on: the repo's earlier work, or those holding the free slots. */
+  queuedBehind: number;
+}
+
+export interface SubmoduleState {
+  commitChanged: boolean;
+  hasTrackedChanges: boolean;
+  hasUntrackedChanges: boolean;
+}
+
+export interface FileModes {
+  head: string;
+  index: string;
+  worktree: string;
+}
+
 export interface ChangedFile {
   path: string;
+  originalPath: string | null;
   indexStatus: string;
   worktreeStatus: string;
   isUntracked: boolean;
   isStaged: boolean;
   isUnstaged: boolean;
   isConflicted: boolean;
+  renameScore: number | null;
+  copyScore: number | null;
+  submodule: SubmoduleState | null;
+  modes: FileModes | null;
+}
+
+export type DiffLineKind = "context" | "add" | "delete";
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  content: string;
+  oldLineNumber: number | null;
+  newLineNumber: number | null;
+  noNewlineAtEnd: boolean;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export type FileDiffStatus =
+  | "modified"
+  | "added"
+  | "deleted"
+  | "renamed"
+  | "copied"
+  | "untracked";
+
+export interface FileDiff {
+  path: string;
+  originalPath: string | null;
+  status: FileDiffStatus;
+  isBinary: boolean;
+  /** Mode of an added or untracked file, e.g. `100755` or `120000`; `null` otherwise. */
+  newFileMode: string | null;
+  hunks: DiffHunk[];
+}
+
+export interface FileDiffOptions {
+  staged: boolean;
+}
+
+/**
+ * Part of one hunk to stage (from the working tree diff) or unstage (from the staged diff).
+ * `hunkHeader` must still match the current diff, so a stale view cannot apply the wrong lines.
+ */
+export interface DiffSelection {
+  path: string;
+  hunkIndex: number;
+  hunkHeader: string;
+  /** Indexes into the hunk's lines; `null` selects every change in the hunk. */
+  lineIndexes: number[] | null;
+}
+
+export interface StashEntry {
+  oid: string;
+  /** Position in `git stash list` at the last refresh; actions look the stash up by oid. */
+  index: number;
+  message: string;
+  branch: string | null;
+  createdAt: string;
+  hasUntracked: boolean;
+}
+
+export interface StashFileStat {
+  path: string;
+  /** `null` for binary files. */
+  additions: number | null;
+  deletions: number | null;
+  untracked: boolean;
+}
+
+export interface CreateStashInput {
+  message: string;
+  includeUntracked: boolean;
+}
+
+export type MergeRebaseAction = "continue" | "skip" | "abort";
+
+/** Take one side of a conflicted file, or stage the file as the user edited it. */
+export type ConflictResolution = "ours" | "theirs" | "resolved";
+
+/** The index stages of a conflicted file; `null` where a side has no version of it. */
+export interface ConflictVersions {
+  path: string;
+  base: string | null;
+  ours: string | null;
+  theirs: string | null;
+  isBinary: boolean;
+}
+
+/** Rewrites HEAD with whatever is staged; with nothing staged only the message changes. */
+export interface AmendCommitInput {
+  message: string;
+  /** Required to amend a commit that is already on its upstream. */
+  force: boolean;
+  /** Rewrites only the message and leaves anything staged for the next commit. */
+  messageOnly: boolean;
+}
+
+export interface BranchInfo {
+  /** Short name, e.g. `main` or `origin/main`. */
+  name: string;
+  fullRef: string;
+  kind: "local" | "remote";
+  remote: string | null;
+  oid: string;
+  isCurrent: boolean;
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+  upstreamGone: boolean;
+  lastCommitAt: string | null;
+  lastCommitSubject: string;
+  /** Whether a local branch is merged into HEAD; `null` for remote branches. */
+  isMerged: boolean | null;
+}
+
+/** A local branch whose commits are at risk of being forgotten. */
+export interface BranchAlert {
+  branch: string;
+  /**
+   * `unpublished`: no upstream, but commits that no remote branch has.
+   * `ahead`: commits not yet pushed to its upstream.
+   * `upstreamGone`: its upstream was deleted on the remote and pruned locally.
+   */
+  reason: "unpublished" | "ahead" | "upstreamGone";
+  /** Commits at risk; 0 for `upstreamGone`. */
+  commitCount: number;
+}
+
+export interface LogQuery {
+  /** Branch, tag or oid to start from; `null` means HEAD. */
+  ref: string | null;
+  limit: number;
+  /** `nextCursor` from the previous page, or `null` for the first page. */
+  cursor: string | null;
+  /** Only list commits touching this path. */
+  path: string | null;
+}
+
+export interface CommitSummary {
+  oid: string;
+  parents: string[];
+  authorName: string;
+  authorEmail: string;
+  authoredAt: string;
+  subject: string;
+  /** Decorations such as `HEAD -> main`, `origin/main` or `tag: v1.0`. */
+  refs: string[];
+}
+
+export interface LogPage {
+  commits: CommitSummary[];
+  /** Pages keep following the tip the first page started from, even if the ref moves. */
+  nextCursor: string | null;
+}
+
+export interface CommitDetails {
+  oid: string;
+  body: string;
+  /** Changes against the first parent; a root commit shows every file as added. */
+  files: FileDiff[];
+}
+
+/** What to do with uncommitted changes when switching branches. */
+export type DirtyCheckoutStrategy = "abort" | "stash" | "carry";
+
+export interface CheckoutBranchInput {
+  /** A local branch, or a remote branch to check out as a new tracking branch. */
+  branch: string;
+  dirtyStrategy: DirtyCheckoutStrategy;
+}
+
+export interface CreateBranchInput {
+  name: string;
+  /** Branch to start from; `null` starts from HEAD. Remote branches become the upstream. */
+  startPoint: string | null;
+  checkout: boolean;
+  dirtyStrategy: DirtyCheckoutStrategy;
 }
 
 export interface RepoStatusSummary {
@@ -75,12 +340,50 @@ export interface RepoStatusSummary {
   branch: string;
   isDetached: boolean;
   hasUpstream: boolean;
+  upstream: string | null;
   ahead: number;
   behind: number;
+  stashCount: number;
+  stashes: StashEntry[];
+  hasStaleStashes: boolean;
+  branchAlerts: BranchAlert[];
+  headOid: string | null;
+  /** Committer date of HEAD on the current branch; `null` when detached or unborn. */
+  lastCommitAt: string | null;
   mergeInProgress: boolean;
   rebaseInProgress: boolean;
   inaccessible: boolean;
   refreshedAt: string;
+  /** When a fetch last succeeded; ahead/behind are only as fresh as this. */
+  lastFetchedAt: string | null;
+  /** Why the latest fetch failed; cleared by the next successful one. */
+  lastFetchError: string | null;
+}
+
+/** Content Kachina saved under a private ref before discarding it, restorable until it expires. */
+export interface RecoveryPoint {
+  id: string;
+  label: string;
+  kind: "tracked" | "untracked";
+  ref: string;
+  commit: string;
+  /** Empty when every tracked change in the repo was captured. */
+  paths: string[];
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * `default` follows the dashboard's fetch-on-refresh setting, `always` fetches on every refresh
+ * and `interval` fetches on refresh once `fetchIntervalMinutes` have passed since the last fetch.
+ */
+export type RepoFetchPolicy = "default" | "always" | "never" | "interval";
+
+export interface RepoRemote {
+  name: string;
+  fetchUrl: string;
+  /** Same as `fetchUrl` unless the remote has its own push URL. */
+  pushUrl: string;
 }
 
 export interface RepoRecord {
@@ -92,12 +395,52 @@ export interface RepoRecord {
   updatedAt: string;
   status: RepoStatusSummary | null;
   activeOperation: ActiveOperation | null;
+  queuedOperations: QueuedOperation[];
   lastError: string | null;
   lastErrorTranscript: CommandTranscript | null;
   transcripts: CommandTranscript[];
+  recoveryPoints: RecoveryPoint[];
+  /** Overrides the dashboard's sync strategy for this repo; `null` uses the default. */
+  syncStrategy: SyncStrategy | null;
+  /** Read on refresh; empty means the repo only exists on this machine. */
+  remotes: RepoRemote[];
+  /** Groups assigned by hand. */
+  manualGroupIds: string[];
+  /** Every group the repo belongs to, by hand or by rule. Kept up to date by the service. */
+  groupIds: string[];
+  /** When an action last ran on the repo through the dashboard; refreshes do not count. */
+  lastActionAt: string | null;
+  notes: string;
+  /** `#rrggbb` colour marking the repo in the list. */
+  accentColor: string | null;
+  /** Replaces the dashboard's editor command for this repo; `<path>` works the same way. */
+  editorCommand: string | null;
+  fetchPolicy: RepoFetchPolicy;
+  fetchIntervalMinutes: number;
+  /** Overrides the dashboard's refresh interval; `null` uses it. */
+  refreshIntervalSeconds: number | null;
+  /** When false, only manual refreshes touch the repo. */
+  autoRefresh: boolean;
+  /** Whether a change watcher is running for the repo. Reset on load. */
+  watching: boolean;
+  /** Why the repo could not be watched, until watching is retried. Reset on load. */
+  watchError: string | null;
+}
+
+/** Fields of a repo the user can edit; omitted fields stay as they are. */
+export interface RepoPatch {
+  displayName?: string;
+  notes?: string;
+  accentColor?: string | null;
+  editorCommand?: string | null;
+  fetchPolicy?: RepoFetchPolicy;
+  fetchIntervalMinutes?: number;
+  refreshIntervalSeconds?: number | null;
+  autoRefresh?: boolean;
 }
 
 export interface DashboardSnapshot {
+  /** Pinned repos first, then the rest in the settings' sort mode. */
   repos: RepoRecord[];
   settings: DashboardSettings;
   generatedAt: string;
@@ -109,11 +452,72 @@ export interface AddRepoInput {
   environment: RepoEnvironment;
 }
 
+/** An action the UI offers after a failure it can resolve, e.g. publishing a new branch. */
+export type RepoFollowUp = "publish" | "sync";
+
+/**
+ * What happened to one ref in `git push --porcelain`. `rejected` is refused by git before
+ * sending (the remote has commits we lack); `remoteRejected` is refused by the remote itself.
+ */
+export type PushRefState =
+  | "fastForward"
+  | "forced"
+  | "new"
+  | "deleted"
+  | "upToDate"
+  | "rejected"
+  | "remoteRejected";
+
+export interface PushRefResult {
+  /** Empty when the push deletes the remote ref. */
+  localRef: string;
+  remoteRef: string;
+  state: PushRefState;
+  /** Git's summary, e.g. `1a2b3c..4d5e6f` or `[rejected]`. */
+  summary: string;
+  /** Git's reason in parentheses, e.g. `fetch first` or `pre-receive hook declined`. */
+  reason: string | null;
+  /** What the remote printed while refusing the ref, such as a hook's explanation. */
+  remoteMessage: string | null;
+}
+
 export interface RepoActionResult {
   ok: boolean;
   message: string;
   transcript?: CommandTranscript;
   snapshot: DashboardSnapshot;
+  followUp?: RepoFollowUp;
+  /** Per-ref outcome of a push, when the action pushed and git reported them. */
+  pushResults?: PushRefResult[];
+}
+
+/**
+ * `pull` fetches and fast-forwards; `sync` follows each repo's sync strategy. `fastForward`
+ * merges the already fetched upstream and skips repos that are dirty, ahead or mid-merge.
+ */
+export type BulkAction = "fetch" | "pull" | "push" | "sync" | "fastForward";
+
+export type BulkRepoState = "succeeded" | "failed" | "cancelled" | "skipped";
+
+export interface BulkRepoOutcome {
+  repoId: string;
+  state: BulkRepoState;
+  message: string;
+}
+
+export interface BulkActionInput {
+  /** Chosen by the caller so it can cancel the group before the result arrives. */
+  groupId: string;
+  action: BulkAction;
+  repoIds: string[];
+}
+
+export interface BulkActionResult {
+  groupId: string;
+  action: BulkAction;
+  ok: boolean;
+  outcomes: BulkRepoOutcome[];
+  snapshot: DashboardSnapshot;
 }
 
 export interface RepoStatusResult {
@@ -131,24 +535,120 @@ export interface UpdateSettingsInput {
   editorCommandWsl?: string;
   refreshIntervalSeconds?: number;
   fetchOnRefresh?: boolean;
+  watchForChanges?: boolean;
+  maxConcurrentOperations?: number;
+  maxConcurrentOperationsPerEnvironment?: number | null;
+  staleStashDays?: number;
+  syncStrategy?: SyncStrategy;
+  fastForwardAfterRefresh?: boolean;
+  /** Groups without an id are created; existing groups missing from the list are removed. */
+  repoGroups?: RepoGroup[];
+  repoSortMode?: RepoSortMode;
 }
 
+export type KachinaEvent =
+  | { type: "snapshot"; snapshot: DashboardSnapshot }
+  | { type: "repoUpdated"; repo: RepoRecord }
+  | { type: "operationStarted"; repoId: string; operation: ActiveOperation }
+  | { type: "operationFinished"; repoId: string; operationId: string }
+  | { type: "queueChanged"; queued: Record<string, QueuedOperation[]> }
+  | {
+      type: "commandProgress";
+      repoId: string;
+      operationId: string;
+      command: ActiveCommand | null;
+    }
+  | {
+      /** Output the command printed since the last event, to append to `currentCommand`. */
+      type: "commandOutput";
+      repoId: string;
+      operationId: string;
+      /** Identifies the command within the operation. */
+      startedAt: string;
+      stdout: string;
+      stderr: string;
+    }
+  | { type: "settingsChanged"; settings: DashboardSettings }
+  | { type: "bulkActionProgress"; groupId: string; outcome: BulkRepoOutcome };
+
+export type KachinaEventListener = (event: KachinaEvent) => void;
+
 export interface KachinaApi {
   getSnapshot: () => Promise<DashboardSnapshot>;
+  /** Re-reads every repo's local state without touching the network. */
   refreshAll: () => Promise<DashboardSnapshot>;
+  /** Fetches every repo, then re-reads its local state. */
+  fetchAll: () => Promise<DashboardSnapshot>;
+  refreshRepo: (repoId: string) => Promise<DashboardSnapshot>;
+  fetchRepo: (repoId: string) => Promise<DashboardSnapshot>;
   scanConfiguredRoots: () => Promise<DashboardSnapshot>;
   addRepo: (input: AddRepoInput) => Promise<DashboardSnapshot>;
   removeRepo: (repoId: string) => Promise<DashboardSnapshot>;
+  setRepoSyncStrategy: (
+    repoId: string,
+    strategy: SyncStrategy | null
+  ) => Promise<DashboardSnapshot>;
+  updateRepo: (repoId: string, patch: RepoPatch) => Promise<DashboardSnapshot>;
+  setRepoGroups: (repoId: string, groupIds: string[]) => Promise<DashboardSnapshot>;
+  setRepoPinned: (repoId: string, pinned: boolean) => Promise<DashboardSnapshot>;
+  /** Saves the dragged order and switches the list to the custom sort mode. */
+  reorderRepos: (repoIds: string[]) => Promise<DashboardSnapshot>;
   updateSettings: (input: UpdateSettingsInput) => Promise<DashboardSnapshot>;
   stageFile: (repoId: string, filePath: string) => Promise<RepoActionResult>;
   unstageFile: (repoId: string, filePath: string) => Promise<RepoActionResult>;
+  getFileDiff: (repoId: string, filePath: string, options: FileDiffOptions) => Promise<FileDiff>;
+  stageSelection: (repoId: string, selection: DiffSelection) => Promise<RepoActionResult>;
+  unstageSelection: (repoId: string, selection: DiffSelection) => Promise<RepoActionResult>;
+  discardFile: (repoId: string, filePath: string) => Promise<RepoActionResult>;
+  discardAll: (repoId: string) => Promise<RepoActionResult>;
+  cleanUntracked: (repoId: string) => Promise<RepoActionResult>;
+  restoreRecoveryPoint: (repoId: string, recoveryPointId: string) => Promise<RepoActionResult>;
+  getStashFiles: (repoId: string, stashOid: string) => Promise<StashFileStat[]>;
+  createStash: (repoId: string, input: CreateStashInput) => Promise<RepoActionResult>;
+  applyStash: (repoId: string, stashOid: string) => Promise<RepoActionResult>;
+  popStash: (repoId: string, stashOid: string) => Promise<RepoActionResult>;
+  dropStash: (repoId: string, stashOid: string) => Promise<RepoActionResult>;
+  listBranches: (repoId: string) => Promise<BranchInfo[]>;
+  checkoutBranch: (repoId: string, input: CheckoutBranchInput) => Promise<RepoActionResult>;
+  createBranch: (repoId: string, input: CreateBranchInput) => Promise<RepoActionResult>;
+  renameBranch: (repoId: string, branch: string, newName: string) => Promise<RepoActionResult>;
+  deleteBranch: (repoId: string, branch: string, force: boolean) => Promise<RepoActionResult>;
+  addRemote: (repoId: string, name: string, url: string) => Promise<RepoActionResult>;
+  removeRemote: (repoId: string, name: string) => Promise<RepoActionResult>;
+  renameRemote: (repoId: string, name: string, newName: string) => Promise<RepoActionResult>;
+  /** Sets the fetch URL, or with `push` a separate push URL. */
+  setRemoteUrl: (
+    repoId: string,
+    name: string,
+    url: string,
+    push: boolean
+  ) => Promise<RepoActionResult>;
+  /** Asks the remote for its HEAD with a short timeout; nothing is fetched. */
+  testRemote: (repoId: string, name: string) => Promise<RepoActionResult>;
+  getLog: (repoId: string, query: LogQuery) => Promise<LogPage>;
+  getCommitDetails: (repoId: string, oid: string) => Promise<CommitDetails>;
   commitRepo: (repoId: string, message: string) => Promise<RepoActionResult>;
+  amendCommit: (repoId: string, input: AmendCommitInput) => Promise<RepoActionResult>;
+  runMergeRebaseAction: (repoId: string, action: MergeRebaseAction) => Promise<RepoActionResult>;
+  getConflictVersions: (repoId: string, filePath: string) => Promise<ConflictVersions>;
+  resolveConflict: (
+    repoId: string,
+    filePath: string,
+    resolution: ConflictResolution
+  ) => Promise<RepoActionResult>;
+  /** Fails with the `publish` follow-up when the branch has no upstream yet. */
   pushRepo: (repoId: string) => Promise<RepoActionResult>;
+  /** Pushes the current branch to `remote` and makes the pushed branch its upstream. */
+  publishBranch: (repoId: string, remote: string) => Promise<RepoActionResult>;
   syncRepo: (repoId: string) => Promise<RepoActionResult>;
   openInEditor: (repoId: string) => Promise<RepoActionResult>;
   openInFileManager: (repoId: string) => Promise<RepoActionResult>;
   openInTerminal: (repoId: string) => Promise<RepoActionResult>;
   cancelRepoOperation: (repoId: string) => Promise<DashboardSnapshot>;
+  runBulkAction: (input: BulkActionInput) => Promise<BulkActionResult>;
+  fastForwardAll: (groupId: string) => Promise<BulkActionResult>;
+  cancelBulkAction: (groupId: string) => Promise<DashboardSnapshot>;
+  onEvent: (listener: KachinaEventListener) => () => void;
 }
 
 export type WindowStateListener = (isMaximized: boolean) => void;
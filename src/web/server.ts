@@ -4,7 +4,20 @@ import * as path from "node:path";
 import type { IncomingMessage, ServerResponse } from "node:http";
 import type {
   AddRepoInput,
+  AmendCommitInput,
+  BulkActionInput,
+  CheckoutBranchInput,
+  ConflictResolution,
+  CreateBranchInput,
+  CreateStashInput,
+  DiffSelection,
+  FileDiffOptions,
   KachinaApi,
+  KachinaEvent,
+  LogQuery,
+  MergeRebaseAction,
+  RepoPatch,
+  SyncStrategy,
   UpdateSettingsInput
 } from "../shared/types";
 import type { RepoService } from "../main/repo-service";
@@ -41,7 +54,8 @@ export function createKachinaWebServer(
     `http://${options.host}:${options.port}`.toLowerCase(),
     `http://localhost:${options.port}`.toLowerCase()
   ]);
-  const shutdownEvents = createShutdownEvents();
+  const eventStream = createEventStream();
+  const unsubscribe = service.onEvent(eventStream.publish);
 
   const server = http.createServer((request, response) => {
     void handleRequest(
@@ -49,7 +63,7 @@ export function createKachinaWebServer(
       staticDirectory,
       allowedHosts,
       allowedOrigins,
-      shutdownEvents,
+      eventStream,
       options.requestShutdown,
       request,
       response
@@ -64,9 +78,11 @@ export function createKachinaWebServer(
     });
   });
 
+  server.once("close", unsubscribe);
+
   return {
     server,
-    announceShutdown: shutdownEvents.announce
+    announceShutdown: eventStream.announceShutdown
   };
 }
 
@@ -75,7 +91,7 @@ async function handleRequest(
   staticDirectory: string,
   allowedHosts: ReadonlySet<string>,
   allowedOrigins: ReadonlySet<string>,
-  shutdownEvents: ShutdownEvents,
+  eventStream: EventStream,
   requestShutdown: () => void,
   request: IncomingMessage,
   response: ServerResponse
@@ -99,7 +115,7 @@ async function handleRequest(
   }
 
   if (requestUrl.pathname === "/api/events") {
-    handleEventStream(allowedOrigins, shutdownEvents, request, response);
+    handleEventStream(allowedOrigins, eventStream, request, response);
     return;
   }
 
@@ -122,12 +138,13 @@ async function handleRequest(
   await serveStaticFile(staticDirectory, requestUrl.pathname, request, response);
 }
 
-interface ShutdownEvents {
+interface EventStream {
   subscribe: (response: ServerResponse) => void;
-  announce: () => void;
+  publish: (event: KachinaEvent) => void;
+  announceShutdown: () => void;
 }
 
-function createShutdownEvents(): ShutdownEvents {
+function createEventStream(): EventStream {
   const subscribers = new Set<ServerResponse>();
   let announced = false;
 
@@ -142,7 +159,16 @@ function createShutdownEvents(): ShutdownEvents {
         subscribers.delete(response);
       });
     },
-    announce(): void {
+    publish(event): void {
+      if (announced || subscribers.size === 0) {
+        return;
+      }
+      const payload = kachinaEvent(event);
+      for (const response of subscribers) {
+        response.write(payload);
+      }
+    },
+    announceShutdown(): void {
       if (announced) {
         return;
       }
@@ -157,7 +183,7 @@ function createShutdownEvents(): ShutdownEvents {
 
 function handleEventStream(
   allowedOrigins: ReadonlySet<string>,
-  shutdownEvents: ShutdownEvents,
+  eventStream: EventStream,
   request: IncomingMessage,
   response: ServerResponse
 ): void {
@@ -178,13 +204,17 @@ function handleEventStream(
   response.setHeader("Connection", "keep-alive");
   response.flushHeaders();
   response.write(": connected\n\n");
-  shutdownEvents.subscribe(response);
+  eventStream.subscribe(response);
 }
 
 function shutdownEvent(): string {
   return 'event: shutdown\ndata: {"status":"shut-down"}\n\n';
 }
 
+function kachinaEvent(event: KachinaEvent): string {
+  return `event: kachina\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
 async function handleApiRequest(
   service: RepoService,
   allowedOrigins: ReadonlySet<string>,
@@ -234,6 +264,15 @@ async function invokeService(
     case "refreshAll":
       requireArgumentCount(method, args, 0);
       return await service.refreshAll();
+    case "fetchAll":
+      requireArgumentCount(method, args, 0);
+      return await service.fetchAll();
+    case "refreshRepo":
+      requireArgumentCount(method, args, 1);
+      return await service.refreshRepo(stringArgument(args, 0));
+    case "fetchRepo":
+      requireArgumentCount(method, args, 1);
+      return await service.fetchRepo(stringArgument(args, 0));
     case "scanConfiguredRoots":
       requireArgumentCount(method, args, 0);
       return await service.scanConfiguredRoots();
@@ -243,6 +282,24 @@ async function invokeService(
     case "removeRepo":
       requireArgumentCount(method, args, 1);
       return await service.removeRepo(stringArgument(args, 0));
+    case "setRepoSyncStrategy":
+      requireArgumentCount(method, args, 2);
+      return await service.setRepoSyncStrategy(
+        stringArgument(args, 0),
+        args[1] === null ? null : recordArgument<SyncStrategy>(args, 1)
+      );
+    case "updateRepo":
+      requireArgumentCount(method, args, 2);
+      return await service.updateRepo(stringArgument(args, 0), recordArgument<RepoPatch>(args, 1));
+    case "setRepoGroups":
+      requireArgumentCount(method, args, 2);
+      return await service.setRepoGroups(stringArgument(args, 0), stringListArgument(args, 1));
+    case "setRepoPinned":
+      requireArgumentCount(method, args, 2);
+      return await service.setRepoPinned(stringArgument(args, 0), booleanArgument(args, 1));
+    case "reorderRepos":
+      requireArgumentCount(method, args, 1);
+      return await service.reorderRepos(stringListArgument(args, 0));
     case "updateSettings":
       requireArgumentCount(method, args, 1);
       return await service.updateSettings(recordArgument<UpdateSettingsInput>(args, 0));
@@ -252,12 +309,152 @@ async function invokeService(
     case "unstageFile":
       requireArgumentCount(method, args, 2);
       return await service.unstageFile(stringArgument(args, 0), stringArgument(args, 1));
+    case "getFileDiff":
+      requireArgumentCount(method, args, 3);
+      return await service.getFileDiff(
+        stringArgument(args, 0),
+        stringArgument(args, 1),
+        recordArgument<FileDiffOptions>(args, 2)
+      );
+    case "stageSelection":
+      requireArgumentCount(method, args, 2);
+      return await service.stageSelection(
+        stringArgument(args, 0),
+        recordArgument<DiffSelection>(args, 1)
+      );
+    case "unstageSelection":
+      requireArgumentCount(method, args, 2);
+      return await service.unstageSelection(
+        stringArgument(args, 0),
+        recordArgument<DiffSelection>(args, 1)
+      );
+    case "discardFile":
+      requireArgumentCount(method, args, 2);
+      return await service.discardFile(stringArgument(args, 0), stringArgument(args, 1));
+    case "discardAll":
+      requireArgumentCount(method, args, 1);
+      return await service.discardAll(stringArgument(args, 0));
+    case "cleanUntracked":
+      requireArgumentCount(method, args, 1);
+      return await service.cleanUntracked(stringArgument(args, 0));
+    case "restoreRecoveryPoint":
+      requireArgumentCount(method, args, 2);
+      return await service.restoreRecoveryPoint(
+        stringArgument(args, 0),
+        stringArgument(args, 1)
+      );
+    case "getStashFiles":
+      requireArgumentCount(method, args, 2);
+      return await service.getStashFiles(stringArgument(args, 0), stringArgument(args, 1));
+    case "createStash":
+      requireArgumentCount(method, args, 2);
+      return await service.createStash(
+        stringArgument(args, 0),
+        recordArgument<CreateStashInput>(args, 1)
+      );
+    case "applyStash":
+      requireArgumentCount(method, args, 2);
+      return await service.applyStash(stringArgument(args, 0), stringArgument(args, 1));
+    case "popStash":
+      requireArgumentCount(method, args, 2);
+      return await service.popStash(stringArgument(args, 0), stringArgument(args, 1));
+    case "dropStash":
+      requireArgumentCount(method, args, 2);
+      return await service.dropStash(stringArgument(args, 0), stringArgument(args, 1));
+    case "listBranches":
+      requireArgumentCount(method, args, 1);
+      return await service.listBranches(stringArgument(args, 0));
+    case "checkoutBranch":
+      requireArgumentCount(method, args, 2);
+      return await service.checkoutBranch(
+        stringArgument(args, 0),
+        recordArgument<CheckoutBranchInput>(args, 1)
+      );
+    case "createBranch":
+      requireArgumentCount(method, args, 2);
+      return await service.createBranch(
+        stringArgument(args, 0),
+        recordArgument<CreateBranchInput>(args, 1)
+      );
+    case "renameBranch":
+      requireArgumentCount(method, args, 3);
+      return await service.renameBranch(
+        stringArgument(args, 0),
+        stringArgument(args, 1),
+        stringArgument(args, 2)
+      );
+    case "deleteBranch":
+      requireArgumentCount(method, args, 3);
+      return await service.deleteBranch(
+        stringArgument(args, 0),
+        stringArgument(args, 1),
+        booleanArgument(args, 2)
+      );
+    case "addRemote":
+      requireArgumentCount(method, args, 3);
+      return await service.addRemote(
+        stringArgument(args, 0),
+        stringArgument(args, 1),
+        stringArgument(args, 2)
+      );
+    case "removeRemote":
+      requireArgumentCount(method, args, 2);
+      return await service.removeRemote(stringArgument(args, 0), stringArgument(args, 1));
+    case "renameRemote":
+      requireArgumentCount(method, args, 3);
+      return await service.renameRemote(
+        stringArgument(args, 0),
+        stringArgument(args, 1),
+        stringArgument(args, 2)
+      );
+    case "setRemoteUrl":
+      requireArgumentCount(method, args, 4);
+      return await service.setRemoteUrl(
+        stringArgument(args, 0),
+        stringArgument(args, 1),
+        stringArgument(args, 2),
+        booleanArgument(args, 3)
+      );
+    case "testRemote":
+      requireArgumentCount(method, args, 2);
+      return await service.testRemote(stringArgument(args, 0), stringArgument(args, 1));
+    case "getLog":
+      requireArgumentCount(method, args, 2);
+      return await service.getLog(stringArgument(args, 0), recordArgument<LogQuery>(args, 1));
+    case "getCommitDetails":
+      requireArgumentCount(method, args, 2);
+      return await service.getCommitDetails(stringArgument(args, 0), stringArgument(args, 1));
     case "commitRepo":
       requireArgumentCount(method, args, 2);
       return await service.commitRepo(stringArgument(args, 0), stringArgument(args, 1));
+    case "amendCommit":
+      requireArgumentCount(method, args, 2);
+      return await service.amendCommit(
+        stringArgument(args, 0),
+        recordArgument<AmendCommitInput>(args, 1)
+      );
+    case "runMergeRebaseAction":
+      requireArgumentCount(method, args, 2);
+      return await service.runMergeRebaseAction(
+        stringArgument(args, 0),
+        choiceArgument<MergeRebaseAction>(args, 1, ["continue", "skip", "abort"])
+      );
+    case "getConflictVersions":
+      requireArgumentCount(method, args, 2);
+      return await service.getConflictVersions(stringArgument(args, 0), stringArgument(args, 1));
+    case "resolveConflict":
+      requireArgumentCount(method, args, 3);
+      return await service.resolveConflict(
+        stringArgument(args, 0),
+        stringArgument(args, 1),
+        choiceArgument<ConflictResolution>(args, 2, ["ours", "theirs", "resolved"])
+      );
     case "pushRepo":
       requireArgumentCount(method, args, 1);
       return await service.pushRepo(stringArgument(args, 0));
+    case "publishBranch":
+      requireArgumentCount(method, args, 2);
+      return await service.publishBranch(stringArgument(args, 0), stringArgument(args, 1));
     case "syncRepo":
       requireArgumentCount(method, args, 1);
       return await service.syncRepo(stringArgument(args, 0));
@@ -273,6 +470,15 @@ async function invokeService(
     case "cancelRepoOperation":
       requireArgumentCount(method, args, 1);
       return service.cancelRepoOperation(stringArgument(args, 0));
+    case "runBulkAction":
+      requireArgumentCount(method, args, 1);
+      return await service.runBulkAction(recordArgument<BulkActionInput>(args, 0));
+    case "fastForwardAll":
+      requireArgumentCount(method, args, 1);
+      return await service.fastForwardAll(stringArgument(args, 0));
+    case "cancelBulkAction":
+      requireArgumentCount(method, args, 1);
+      return service.cancelBulkAction(stringArgument(args, 0));
     default:
       throw new Error("Unknown Kachina API method.");
   }
@@ -309,6 +515,34 @@ function stringArgument(args: unknown[], index: number): string {
   return value;
 }
 
+function stringListArgument(args: unknown[], index: number): string[] {
+  const value = args[index];
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    throw new Error(`Argument ${index + 1} must be a list of strings.`);
+  }
+  return value;
+}
+
+function booleanArgument(args: unknown[], index: number): boolean {
+  const value = args[index];
+  if (typeof value !== "boolean") {
+    throw new Error(`Argument ${index + 1} must be a boolean.`);
+  }
+  return value;
+}
+
+function choiceArgument<T extends string>(
+  args: unknown[],
+  index: number,
+  choices: readonly T[]
+): T {
+  const value = args[index];
+  if (typeof value !== "string" || !choices.includes(value as T)) {
+    throw new Error(`Argument ${index + 1} must be one of: ${choices.join(", ")}.`);
+  }
+  return value as T;
+}
+
 function recordArgument<T>(args: unknown[], index: number): T {
   const value = args[index];
   if (typeof value !== "object" || value === null || Array.isArray(value)) {